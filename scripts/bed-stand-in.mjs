@@ -0,0 +1,101 @@
+// Stand-in bed controller speaking the line-delimited JSON protocol of
+// src/lib/devices/tcpDevice.ts. Run it and start the app with BED_DEVICE=tcp.
+//
+//   node scripts/bed-stand-in.mjs [port]
+//
+// Besides the app's commands it accepts {"cmd":"fault","side":"left","fault":"low_water"}
+// to report a fault on a side; leaving out "fault" clears it. Someone lies down or
+// gets up with {"cmd":"occupancy","side":"right","occupied":true}.
+
+import { createServer } from 'node:net';
+
+const port = Number(process.argv[2] ?? process.env.BED_DEVICE_PORT ?? 7878);
+const capabilities = { minTemp: 55, maxTemp: 110, modes: ['off', 'cool', 'heat'] };
+const zones = {
+  left: { mode: 'cool', currentTemp: 72, targetTemp: 68, occupied: true },
+  right: { mode: 'off', currentTemp: 70, occupied: false },
+};
+const clients = new Set();
+
+const broadcast = (side) => {
+  const line = `${JSON.stringify({ event: 'telemetry', side, ...zones[side] })}\n`;
+  clients.forEach((socket) => socket.write(line));
+};
+
+// One simulated minute per second: active zones move a degree toward their
+// target, idle zones relax toward a 70°F room.
+setInterval(() => {
+  for (const [side, zone] of Object.entries(zones)) {
+    const goal = zone.mode === 'off' || zone.targetTemp === undefined ? 70 : zone.targetTemp;
+    const gap = goal - zone.currentTemp;
+    const step = zone.mode === 'off' ? gap * 0.05 : Math.sign(gap) * Math.min(1, Math.abs(gap));
+    zone.currentTemp = Math.round((zone.currentTemp + step) * 100) / 100;
+    broadcast(side);
+  }
+}, 1000);
+
+const handle = (message) => {
+  switch (message.cmd) {
+    case 'capabilities':
+      return capabilities;
+    case 'read':
+      return zones;
+    case 'set': {
+      const zone = zones[message.side];
+      if (!zone) throw new Error(`unknown side ${message.side}`);
+      if (message.targetTemp !== undefined) {
+        if (message.targetTemp < capabilities.minTemp || message.targetTemp > capabilities.maxTemp) {
+          throw new Error('target out of range');
+        }
+        zone.targetTemp = message.targetTemp;
+      }
+      if (message.mode !== undefined) {
+        if (!capabilities.modes.includes(message.mode)) throw new Error(`unsupported mode ${message.mode}`);
+        zone.mode = message.mode;
+      }
+      broadcast(message.side);
+      return undefined;
+    }
+    case 'fault': {
+      const zone = zones[message.side];
+      if (!zone) throw new Error(`unknown side ${message.side}`);
+      if (message.fault) zone.fault = message.fault;
+      else delete zone.fault;
+      broadcast(message.side);
+      return undefined;
+    }
+    case 'occupancy': {
+      const zone = zones[message.side];
+      if (!zone) throw new Error(`unknown side ${message.side}`);
+      if (typeof message.occupied !== 'boolean') throw new Error('occupied must be a boolean');
+      zone.occupied = message.occupied;
+      broadcast(message.side);
+      return undefined;
+    }
+    default:
+      throw new Error(`unknown command ${message.cmd}`);
+  }
+};
+
+createServer((socket) => {
+  clients.add(socket);
+  socket.setEncoding('utf8');
+  let buffer = '';
+  socket.on('data', (chunk) => {
+    buffer += chunk;
+    let newline;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      let message;
+      try {
+        message = JSON.parse(line);
+        socket.write(`${JSON.stringify({ id: message.id, ok: true, result: handle(message) })}\n`);
+      } catch (error) {
+        socket.write(`${JSON.stringify({ id: message?.id, ok: false, error: error.message })}\n`);
+      }
+    }
+  });
+  socket.on('close', () => clients.delete(socket));
+  socket.on('error', () => clients.delete(socket));
+}).listen(port, () => console.log(`Bed stand-in listening on port ${port}`));
@@ -0,0 +1,22 @@
+import { getBed } from '@/lib/server/bedStore';
+import { simulatedDevice } from '@/lib/server/device';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parseOccupancy, parseSide } from '@/lib/validation';
+
+/**
+ * Has someone lie down on a side of a simulated bed, or get up, as the TCP
+ * stand-in's `occupancy` command does. Only available in development.
+ */
+export async function PUT(request: Request, { params }: { params: Promise<{ bedId: string; side: string }> }) {
+  try {
+    const { bedId, side: sideParam } = await params;
+    const side = parseSide(sideParam);
+    const occupied = parseOccupancy(await readJson(request));
+    // Loading the bed first makes sure its store hears the reading.
+    await getBed(bedId);
+    simulatedDevice(bedId).setOccupied(side, occupied);
+    return Response.json(await getBed(bedId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { decideRecommendation } from '@/lib/server/bedStore';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parseRecommendationDecision, parseSide } from '@/lib/validation';
+
+/** Accepts or rejects an autopilot recommendation for one side. */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ bedId: string; side: string; id: string }> },
+) {
+  try {
+    const { bedId, side: sideParam, id } = await params;
+    const side = parseSide(sideParam);
+    const status = parseRecommendationDecision(await readJson(request));
+    return Response.json(
+      await decideRecommendation(bedId, side, id, status, {
+        clientId: request.headers.get('X-Client-Id') ?? undefined,
+      }),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { patchZone } from '@/lib/server/bedStore';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parseSide, parseVersion, parseZonePatch } from '@/lib/validation';
+
+/**
+ * Updates one side. `X-Client-Id` identifies the writer and `If-Match` carries
+ * the side version it last saw, so overwritten clients can be told.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ bedId: string; side: string }> },
+) {
+  try {
+    const { bedId, side: sideParam } = await params;
+    const side = parseSide(sideParam);
+    const patch = parseZonePatch(await readJson(request));
+    const bed = await patchZone(bedId, side, patch, {
+      clientId: request.headers.get('X-Client-Id') ?? undefined,
+      baseVersion: parseVersion(request.headers.get('If-Match')),
+    });
+    return Response.json(bed);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { importSleep } from '@/lib/server/bedStore';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parseSide, parseSleepImport } from '@/lib/validation';
+
+/** Adds sleep data from a wearable to one side and lets its autopilot learn from it. */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ bedId: string; side: string }> },
+) {
+  try {
+    const { bedId, side: sideParam } = await params;
+    const side = parseSide(sideParam);
+    const data = parseSleepImport(await readJson(request));
+    return Response.json(
+      await importSleep(bedId, side, data, { clientId: request.headers.get('X-Client-Id') ?? undefined }),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
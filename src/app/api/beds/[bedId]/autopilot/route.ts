@@ -0,0 +1,13 @@
+import { updateAutopilot } from '@/lib/server/bedStore';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parseAutopilotPatch } from '@/lib/validation';
+
+/** Changes the autopilot mode of one or both sides. */
+export async function PATCH(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    const { bedId } = await params;
+    return Response.json(await updateAutopilot(bedId, parseAutopilotPatch(await readJson(request))));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
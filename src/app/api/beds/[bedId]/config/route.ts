@@ -0,0 +1,32 @@
+import { exportConfig } from '@/lib/configDocument';
+import { getBed, importConfig } from '@/lib/server/bedStore';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parseConfigDocument, parseUnit } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+/** The bed's configuration document, offered as a download. `unit` records the display unit. */
+export async function GET(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    const { bedId } = await params;
+    const unit = parseUnit(new URL(request.url).searchParams.get('unit'));
+    return Response.json(exportConfig(await getBed(bedId), unit), {
+      headers: { 'Content-Disposition': `attachment; filename="${bedId}-config.json"` },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Applies an exported configuration to the bed. */
+export async function PUT(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    const { bedId } = await params;
+    const config = parseConfigDocument(await readJson(request));
+    return Response.json(
+      await importConfig(bedId, config, { clientId: request.headers.get('X-Client-Id') ?? undefined }),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,56 @@
+import { getBed, subscribe } from '@/lib/server/bedStore';
+import { errorResponse } from '@/lib/server/respond';
+import type { BedEvent } from '@/lib/zone';
+
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_MS = 15_000;
+
+/** Server-Sent Events stream of bed changes, starting with a snapshot. */
+export async function GET(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  const { bedId } = await params;
+  let snapshot;
+  try {
+    snapshot = await getBed(bedId);
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: BedEvent) => write(`data: ${JSON.stringify(event)}\n\n`);
+      send({ type: 'snapshot', bed: snapshot });
+
+      const unsubscribe = subscribe(bedId, send);
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+      close = () => {
+        closed = true;
+        unsubscribe();
+        clearInterval(keepAlive);
+      };
+      request.signal.addEventListener('abort', () => {
+        if (closed) return;
+        close();
+        controller.close();
+      });
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,19 @@
+import { findBed } from '@/lib/server/beds';
+import { getHistory } from '@/lib/server/historyStore';
+import { errorResponse } from '@/lib/server/respond';
+import { parseTimestamp } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+/** Recorded samples for both sides between the `from` and `to` epoch milliseconds. */
+export async function GET(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    const { id } = findBed((await params).bedId);
+    const { searchParams } = new URL(request.url);
+    const to = parseTimestamp(searchParams.get('to'), 'to') ?? Date.now();
+    const from = parseTimestamp(searchParams.get('from'), 'from') ?? to - 60 * 60 * 1000;
+    return Response.json(getHistory(id, from, to));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,13 @@
+import { updateLink } from '@/lib/server/bedStore';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parseLinkPatch } from '@/lib/validation';
+
+/** Links or unlinks the sides of the bed. */
+export async function PATCH(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    const { bedId } = await params;
+    return Response.json(await updateLink(bedId, parseLinkPatch(await readJson(request))));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
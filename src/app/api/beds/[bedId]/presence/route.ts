@@ -0,0 +1,13 @@
+import { updatePresence } from '@/lib/server/bedStore';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parsePresencePatch } from '@/lib/validation';
+
+/** Changes the presence automation of one or both sides. */
+export async function PATCH(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    const { bedId } = await params;
+    return Response.json(await updatePresence(bedId, parsePresencePatch(await readJson(request))));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,13 @@
+import { setPresets } from '@/lib/server/bedStore';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parsePresets } from '@/lib/validation';
+
+/** Replaces the presets, which also covers renaming, reordering and deleting them. */
+export async function PUT(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    const { bedId } = await params;
+    return Response.json(await setPresets(bedId, parsePresets(await readJson(request))));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,12 @@
+import { getBed } from '@/lib/server/bedStore';
+import { errorResponse } from '@/lib/server/respond';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    return Response.json(await getBed((await params).bedId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,13 @@
+import { updateSafety } from '@/lib/server/bedStore';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { parseSafetyPatch } from '@/lib/validation';
+
+/** Changes the safety limits and child lock of the bed. */
+export async function PATCH(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    const { bedId } = await params;
+    return Response.json(await updateSafety(bedId, parseSafetyPatch(await readJson(request))));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
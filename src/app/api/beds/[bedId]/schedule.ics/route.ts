@@ -0,0 +1,20 @@
+import { scheduleCalendar } from '@/lib/icalendar';
+import { getBed } from '@/lib/server/bedStore';
+import { findBed } from '@/lib/server/beds';
+import { errorResponse } from '@/lib/server/respond';
+import { parseUnit } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+/** Sleep programs and wake alarms as an iCalendar feed that calendar apps can subscribe to. */
+export async function GET(request: Request, { params }: { params: Promise<{ bedId: string }> }) {
+  try {
+    const { id, name } = findBed((await params).bedId);
+    const unit = parseUnit(new URL(request.url).searchParams.get('unit'));
+    return new Response(scheduleCalendar(await getBed(id), { bedId: id, name, unit }), {
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8' },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
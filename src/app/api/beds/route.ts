@@ -0,0 +1,13 @@
+import { listBeds } from '@/lib/server/bedStore';
+import { errorResponse } from '@/lib/server/respond';
+
+export const dynamic = 'force-dynamic';
+
+/** Every bed with its name, zones and side names. */
+export async function GET() {
+  try {
+    return Response.json(await listBeds());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
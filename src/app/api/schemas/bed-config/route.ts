@@ -0,0 +1,6 @@
+import { CONFIG_SCHEMA } from '@/lib/configDocument';
+
+/** JSON Schema of the documents exported from and imported into `/api/beds/{bedId}/config`. */
+export function GET() {
+  return Response.json(CONFIG_SCHEMA, { headers: { 'Content-Type': 'application/schema+json' } });
+}
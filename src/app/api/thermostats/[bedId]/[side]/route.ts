@@ -0,0 +1,49 @@
+import { checkThermostatToken } from '@/lib/server/auth';
+import { getBed, patchZone } from '@/lib/server/bedStore';
+import { findBed } from '@/lib/server/beds';
+import { errorResponse, readJson } from '@/lib/server/respond';
+import { thermostatPatch, toThermostat } from '@/lib/thermostat';
+import { parseSide, parseThermostatCommand, parseUnit } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+/** One side as a thermostat, in the `unit` asked for. */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ bedId: string; side: string }> },
+) {
+  try {
+    checkThermostatToken(request);
+    const { bedId, side: sideParam } = await params;
+    const side = parseSide(sideParam);
+    const unit = parseUnit(new URL(request.url).searchParams.get('unit'));
+    return Response.json(toThermostat(findBed(bedId), await getBed(bedId), side, { unit }));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Changes `hvac_mode` and/or `target_temperature` of one side and answers with
+ * the thermostat after the change. The write is attributed to `X-Client-Id`
+ * like any other.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ bedId: string; side: string }> },
+) {
+  try {
+    checkThermostatToken(request);
+    const { bedId, side: sideParam } = await params;
+    const side = parseSide(sideParam);
+    const unit = parseUnit(new URL(request.url).searchParams.get('unit'));
+    const command = parseThermostatCommand(await readJson(request));
+    const patch = thermostatPatch(await getBed(bedId), side, command, unit);
+    const bed = await patchZone(bedId, side, patch, {
+      clientId: request.headers.get('X-Client-Id') ?? undefined,
+    });
+    return Response.json(toThermostat(findBed(bedId), bed, side, { unit }));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
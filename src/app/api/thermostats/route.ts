@@ -0,0 +1,30 @@
+import { checkThermostatToken } from '@/lib/server/auth';
+import { readBed } from '@/lib/server/bedStore';
+import { bedConfigs } from '@/lib/server/beds';
+import { errorResponse } from '@/lib/server/respond';
+import { toThermostat } from '@/lib/thermostat';
+import { parseUnit } from '@/lib/validation';
+import { SIDES } from '@/lib/zone';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Discovery listing for home-automation hubs: every side of every bed as a
+ * thermostat. Sides of a bed whose controller can't be reached are listed as
+ * unavailable.
+ */
+export async function GET(request: Request) {
+  try {
+    checkThermostatToken(request);
+    const unit = parseUnit(new URL(request.url).searchParams.get('unit'));
+    const thermostats = await Promise.all(
+      bedConfigs().map(async (config) => {
+        const { bed, available } = await readBed(config.id);
+        return SIDES.map((side) => toThermostat(config, bed, side, { unit, available }));
+      }),
+    );
+    return Response.json({ thermostats: thermostats.flat() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
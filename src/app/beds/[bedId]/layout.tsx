@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import type { ReactNode } from 'react';
+import { notFound } from 'next/navigation';
+import BedDemo from '@/components/BedDemo';
+import { BedConfig, findBed } from '@/lib/server/beds';
+
+type Params = Promise<{ bedId: string }>;
+
+function bedOrNotFound(bedId: string): BedConfig {
+  try {
+    return findBed(bedId);
+  } catch {
+    notFound();
+  }
+}
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { name } = bedOrNotFound((await params).bedId);
+  return { title: { template: `%s · ${name}`, default: name } };
+}
+
+// The controls live in the layout so the bed's state carries over between its
+// pages; the pages themselves only set the title.
+export default async function BedLayout({ params, children }: { params: Params; children: ReactNode }) {
+  const { id, name, timeZone } = bedOrNotFound((await params).bedId);
+  return (
+    <>
+      <BedDemo bedId={id} bedName={name} timeZone={timeZone} />
+      {children}
+    </>
+  );
+}
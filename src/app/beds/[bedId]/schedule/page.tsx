@@ -0,0 +1,9 @@
+import { bedPageMetadata } from '@/lib/server/preferences';
+
+export function generateMetadata() {
+  return bedPageMetadata('schedule');
+}
+
+export default function Page() {
+  return null;
+}
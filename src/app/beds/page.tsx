@@ -0,0 +1,15 @@
+import type { Metadata } from 'next';
+import { BedList } from '@/components/BedList';
+import { demoMessages } from '@/lib/messages';
+import { listBeds } from '@/lib/server/bedStore';
+import { requestPreferences } from '@/lib/server/preferences';
+
+export const dynamic = 'force-dynamic';
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: demoMessages((await requestPreferences()).locale).beds };
+}
+
+export default async function Page() {
+  return <BedList beds={await listBeds()} />;
+}
@@ -1,6 +1,9 @@
 import type { Metadata } from 'next';
 import type { ReactNode } from 'react';
 import { Roboto } from 'next/font/google';
+import InitColorSchemeScript from '@mui/material/InitColorSchemeScript';
+import { DEFAULT_THEME_MODE } from '@/lib/preferences';
+import { requestPreferences } from '@/lib/server/preferences';
 import { Providers } from './providers';
 
 const roboto = Roboto({
@@ -11,15 +14,19 @@ const roboto = Roboto({
 });
 
 export const metadata: Metadata = {
-  title: 'Bed Zones',
+  title: { template: '%s · Bed Zones', default: 'Bed Zones' },
   description: 'Two-zone bed UI demo',
 };
 
-export default function RootLayout({ children }: { children: ReactNode }) {
+export default async function RootLayout({ children }: { children: ReactNode }) {
+  // Read on the server so the page renders with the user's choices from the start.
+  const preferences = await requestPreferences();
   return (
-    <html lang="en" className={roboto.variable}>
+    // The color scheme script sets a class on <html> before React hydrates.
+    <html lang={preferences.locale} className={roboto.variable} suppressHydrationWarning>
       <body>
-        <Providers>{children}</Providers>
+        <InitColorSchemeScript attribute="class" defaultMode={DEFAULT_THEME_MODE} />
+        <Providers preferences={preferences}>{children}</Providers>
       </body>
     </html>
   );
@@ -1,5 +1,19 @@
-import BedDemo from '@/components/BedDemo';
+import { redirect } from 'next/navigation';
+import { bedPageHref } from '@/lib/preferences';
+import { findBed } from '@/lib/server/beds';
+import { requestPreferences } from '@/lib/server/preferences';
 
-export default function Page() {
-  return <BedDemo />;
-}
\ No newline at end of file
+// Reopens the bed page seen last, or the list of beds when there is none or
+// that bed is gone.
+export default async function Page() {
+  const { lastVisit } = await requestPreferences();
+  let href = '/beds';
+  if (lastVisit) {
+    try {
+      href = bedPageHref(findBed(lastVisit.bedId).id, lastVisit.page);
+    } catch {
+      // The bed was removed from the configuration.
+    }
+  }
+  redirect(href);
+}
@@ -3,13 +3,21 @@
 import { AppRouterCacheProvider } from '@mui/material-nextjs/v15-appRouter';
 import { ThemeProvider, CssBaseline } from '@mui/material';
 import { appTheme } from '@/theme';
+import { PreferencesProvider } from '@/hooks/usePreferences';
+import { DEFAULT_THEME_MODE, type Preferences } from '@/lib/preferences';
 
-export function Providers({ children }: { children: React.ReactNode }) {
+export function Providers({
+  preferences,
+  children,
+}: {
+  preferences: Preferences;
+  children: React.ReactNode;
+}) {
   return (
     <AppRouterCacheProvider>
-      <ThemeProvider theme={appTheme}>
+      <ThemeProvider theme={appTheme} defaultMode={DEFAULT_THEME_MODE}>
         <CssBaseline />
-        {children}
+        <PreferencesProvider initialPreferences={preferences}>{children}</PreferencesProvider>
       </ThemeProvider>
     </AppRouterCacheProvider>
   );
@@ -1,6 +1,8 @@
 'use client';
 
 import * as React from 'react';
+import Link from 'next/link';
+import { useSelectedLayoutSegment } from 'next/navigation';
 import {
   Stack,
   Tabs,
@@ -13,96 +15,756 @@ import {
   BottomNavigation,
   BottomNavigationAction,
   TextField,
+  TextFieldProps,
+  ToggleButtonGroup,
+  ToggleButton,
+  Button,
+  Snackbar,
+  Chip,
+  Alert,
+  Box,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
 } from '@mui/material';
+import { useColorScheme } from '@mui/material/styles';
 import { BedDualZone, ZoneState } from './BedDualZone';
+import { useNow } from '@/hooks/useNow';
+import { useBedPreferences, usePreferences } from '@/hooks/usePreferences';
+import {
+  DEFAULT_SETPOINTS,
+  DEFAULT_WAKE_ALARM,
+  localClock,
+  Setpoint,
+  sortSetpoints,
+  timeToMinutes,
+  WakeAlarm,
+  WAKE_RAMP_MINUTES,
+  Weekday,
+  WEEKDAYS,
+} from '@/lib/schedule';
+import {
+  BedState,
+  clampTarget,
+  clampTemp,
+  DEFAULT_BED,
+  LinkSettings,
+  Mode,
+  modeFor,
+  powerZone,
+  retargetZone,
+  Side,
+  SIDES,
+  supportedMode,
+  targetRange,
+  ZonePatch,
+} from '@/lib/zone';
+import {
+  calendarUrl,
+  CLIENT_ID,
+  configUrl,
+  decideRecommendation,
+  fetchBed,
+  fetchHistory,
+  patchAutopilot,
+  patchLink,
+  patchPresence,
+  patchSafety,
+  patchSide,
+  postSleepData,
+  putConfig,
+  putPresets,
+  subscribeBed,
+} from '@/lib/bedClient';
+import {
+  CommandStatus,
+  describeCommand,
+  lastUndoable,
+  recordAutomation,
+  recordCommand,
+  sameSettings,
+  settingsOf,
+  settingsPatch,
+  updateCommands,
+  ZoneCommand,
+} from '@/lib/commands';
+import { AUTOPILOT_MODES, AutopilotMode, Recommendation, TempEvidence } from '@/lib/autopilot';
+import type { ComfortRange } from '@/lib/comfort';
+import { HourCycle, Locale, LOCALE_NAMES, localeFormat, LOCALES } from '@/lib/i18n';
+import { demoMessages, EvidenceText, zoneMessages } from '@/lib/messages';
+import { MAX_PRESETS, Preset, PresetSide } from '@/lib/presets';
+import { BED_PAGES, BedPage, bedPageHref } from '@/lib/preferences';
+import type { PresenceSettings } from '@/lib/presence';
+import type { SafetySettings } from '@/lib/safety';
+import { parseSleepData } from '@/lib/sleepData';
+import { parseConfigDocument } from '@/lib/validation';
+import {
+  deltaFromUnit,
+  deltaToUnit,
+  displayTemp,
+  fromUnit as unitToF,
+  snap,
+  TempUnit,
+} from '@/lib/temperature';
+import { BedHistory, HISTORY_RANGES, HistoryRange, rangeWindow } from '@/lib/history';
+import { ZoneHistoryChart } from './ZoneHistoryChart';
+import { ThermostatDial } from './ThermostatDial';
 import AddIcon from '@mui/icons-material/Add';
-import RemoveIcon from '@mui/icons-material/Remove';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import PowerSettingsNewIcon from '@mui/icons-material/PowerSettingsNew';
 import HomeIcon from '@mui/icons-material/Home';
 import SettingsIcon from '@mui/icons-material/Settings';
 import ScheduleIcon from '@mui/icons-material/Schedule';
+import DeleteIcon from '@mui/icons-material/Delete';
+import DownloadIcon from '@mui/icons-material/Download';
+import UploadIcon from '@mui/icons-material/Upload';
+import EventIcon from '@mui/icons-material/Event';
+import ShowChartIcon from '@mui/icons-material/ShowChart';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import UndoIcon from '@mui/icons-material/Undo';
+import HourglassEmptyIcon from '@mui/icons-material/HourglassEmpty';
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import LightModeIcon from '@mui/icons-material/LightMode';
+import DarkModeIcon from '@mui/icons-material/DarkMode';
+import SettingsBrightnessIcon from '@mui/icons-material/SettingsBrightness';
+
+const formatTime = (minutes: number) => {
+  const m = ((minutes % (24 * 60)) + 24 * 60) % (24 * 60);
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+/** Auto-off timer lengths offered on the Home page, in minutes. */
+const AUTO_OFF_MINUTES = [30, 60, 120, 240, 480];
+
+/** Sleep timer lengths offered on the Schedule page, in minutes. */
+const SLEEP_TIMER_MINUTES = [15, 30, 45, 60, 90, 120];
+
+/** Offsets between linked sides, in steps of the display unit. */
+const LINK_OFFSETS = [-6, -5, -4, -3, -2, -1, 0, 1, 2, 3, 4, 5, 6];
+
+/** Heating limits offered in Settings, in minutes. */
+const MAX_HEAT_MINUTES = [60, 120, 240, 480, 720];
+
+/** Waits before an empty side turns off, offered in Settings, in minutes. */
+const EMPTY_MINUTES = [5, 10, 15, 30, 60, 120];
+
+const COMMAND_STATUS_ICONS: Record<CommandStatus, React.ReactElement> = {
+  pending: <HourglassEmptyIcon fontSize="small" color="disabled" />,
+  applied: <CheckCircleOutlineIcon fontSize="small" color="success" />,
+  rejected: <ErrorOutlineIcon fontSize="small" color="error" />,
+  undone: <UndoIcon fontSize="small" color="disabled" />,
+};
+
+/**
+ * A text field edited locally and handed to `onCommit` once, when it loses
+ * focus or Enter is pressed, so typing doesn't send a request per keystroke.
+ * Outside changes to `value` show up while the field isn't being edited.
+ */
+function CommitTextField({
+  value,
+  onCommit,
+  ...props
+}: Omit<TextFieldProps, 'value' | 'onChange' | 'onBlur' | 'onKeyDown'> & {
+  value: string;
+  onCommit: (value: string) => void;
+}) {
+  const [draft, setDraft] = React.useState<string | null>(null);
+  const commit = () => {
+    if (draft !== null && draft !== value) onCommit(draft);
+    setDraft(null);
+  };
+  return (
+    <TextField
+      {...props}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+    />
+  );
+}
+
+/**
+ * Controls for one bed. It is rendered by the bed's layout, so its state is
+ * kept while moving between the bed's pages; the open page comes from the URL.
+ */
+export default function BedDemo({
+  bedId,
+  bedName,
+  timeZone,
+}: {
+  bedId: string;
+  bedName: string;
+  /** IANA time zone the bed's programs and wake alarms run in. */
+  timeZone: string;
+}) {
+  const segment = useSelectedLayoutSegment();
+  const page: BedPage = BED_PAGES.find((p) => p === segment) ?? 'home';
+  const [zones, setZones] = React.useState<Record<Side, ZoneState>>(DEFAULT_BED.zones);
+  // Unit, display and edited side are remembered per bed between visits; side
+  // names start from the ones last seen until the server's arrive.
+  const [preferences, updatePreferences] = useBedPreferences(bedId);
+  const { unit, comfort, editingSide: editing } = preferences;
+  const setUnit = (next: TempUnit) => updatePreferences({ unit: next });
+  const setComfort = (next: boolean) => updatePreferences({ comfort: next });
+  const setEditing = (next: Side) => updatePreferences({ editingSide: next });
+  const [sideNames, setSideNames] = React.useState(preferences.sideNames);
+  // `mode` is unknown until mounted, when MUI has read the stored choice.
+  const { mode: themeMode, setMode: setThemeMode } = useColorScheme();
+  React.useEffect(() => updatePreferences({ sideNames }), [sideNames, updatePreferences]);
+  // Language and clock apply to every bed.
+  const {
+    preferences: { locale, hourCycle },
+    updatePreferences: updateSharedPreferences,
+  } = usePreferences();
+  const format = React.useMemo(() => localeFormat(locale, hourCycle ?? undefined), [locale, hourCycle]);
+  const text = demoMessages(locale);
+  const zoneText = zoneMessages(locale);
+  const formatDuration = (minutes: number) =>
+    minutes % 60 ? text.minutes(format.number(minutes)) : text.hours(format.number(minutes / 60));
+  // The app reopens on the bed and page seen last.
+  React.useEffect(
+    () => updateSharedPreferences({ lastVisit: { bedId, page } }),
+    [bedId, page, updateSharedPreferences],
+  );
+  const [scheduleDay, setScheduleDay] = React.useState<Weekday>(() => localClock(timeZone)(Date.now()).day);
+  const [capabilities, setCapabilities] = React.useState(DEFAULT_BED.capabilities);
+  const [safety, setSafety] = React.useState(DEFAULT_BED.safety);
+  const [presets, setPresets] = React.useState(DEFAULT_BED.presets);
+  const [presence, setPresence] = React.useState(DEFAULT_BED.presence);
+  const [autopilot, setAutopilot] = React.useState(DEFAULT_BED.autopilot);
+  const [link, setLink] = React.useState(DEFAULT_BED.link);
+  const [presetSides, setPresetSides] = React.useState<Side | 'both'>('both');
+  const locked = safety.childLock;
+  // A faulted side can't be controlled until the controller clears the fault.
+  const faulted = (side: Side) => !!zones[side].fault;
+  const sideLocked = locked || faulted(editing);
+  const [historyRange, setHistoryRange] = React.useState<HistoryRange>('hour');
+  const [history, setHistory] = React.useState<{ from: number; to: number; samples: BedHistory } | null>(
+    null,
+  );
+  const now = useNow();
+  const [sleepMinutes, setSleepMinutes] = React.useState(30);
+  const [sleepTemp, setSleepTemp] = React.useState(66);
+
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [importError, setImportError] = React.useState<string | null>(null);
+  const [sleepImportError, setSleepImportError] = React.useState<string | null>(null);
+  const lastWrite = React.useRef(0);
+  const lastPresetSave = React.useRef(0);
+  const versions = React.useRef(DEFAULT_BED.versions);
+  const [commands, setCommands] = React.useState<Record<Side, ZoneCommand[]>>({ left: [], right: [] });
+  const commandSeq = React.useRef(0);
+  const latestCommand = React.useRef<Partial<Record<Side, number>>>({});
+  // Commands issued in the same task belong to one action.
+  const actionGroup = React.useRef<number | null>(null);
+  // The zones as last rendered, which server changes are recorded against.
+  const shownZones = React.useRef(zones);
+  React.useEffect(() => {
+    shownZones.current = zones;
+  }, [zones]);
 
-type Side = 'left' | 'right';
+  const syncBed = React.useCallback((bed: BedState) => {
+    versions.current = bed.versions;
+    setZones(bed.zones);
+    setSideNames(bed.sideNames);
+    setCapabilities(bed.capabilities);
+    setSafety(bed.safety);
+    setPresets(bed.presets);
+    setPresence(bed.presence);
+    setAutopilot(bed.autopilot);
+    setLink(bed.link);
+  }, []);
 
-export default function BedDemo() {
-  const [zones, setZones] = React.useState<Record<Side, ZoneState>>({
-    left: {
-      mode: 'cool',
-      currentTemp: 72,
-      targetTemp: 68,
-      schedule: { running: false },
+  // Changes show up locally right away. The server's copy replaces the local
+  // one when the newest write is answered; a refused write is reported and the
+  // server's copy reloaded. Resolves with the refusal, if any.
+  const persistSide = React.useCallback(
+    (side: Side, patch: ZonePatch): Promise<Error | null> => {
+      const write = ++lastWrite.current;
+      return patchSide(bedId, side, patch, versions.current[side]).then(
+        (bed) => {
+          if (write === lastWrite.current) syncBed(bed);
+          return null;
+        },
+        (error: Error) => {
+          console.error(error);
+          setNotice(text.changeRejected(error.message));
+          fetchBed(bedId).then(syncBed, (reloadError) => console.error(reloadError));
+          return error;
+        },
+      );
     },
-    right: {
-      mode: 'off',
-      currentTemp: 70,
-      schedule: { running: false },
+    [bedId, syncBed, text],
+  );
+
+  /**
+   * Moves a side from `before` to `next` right away and records the change as
+   * a pending command until the server answers. A refused command rolls the
+   * side back, unless a later command has replaced it since.
+   */
+  const persistZone = React.useCallback(
+    (
+      side: Side,
+      before: ZoneState,
+      next: ZoneState,
+      { source, undoes }: Pick<ZoneCommand, 'source' | 'undoes'> = {},
+    ) => {
+      const id = ++commandSeq.current;
+      if (actionGroup.current === null) {
+        actionGroup.current = id;
+        queueMicrotask(() => {
+          actionGroup.current = null;
+        });
+      }
+      const command: ZoneCommand = {
+        id,
+        group: actionGroup.current,
+        side,
+        at: Date.now(),
+        before: settingsOf(before),
+        after: settingsOf(next),
+        status: 'pending',
+        source,
+        undoes,
+      };
+      latestCommand.current[side] = id;
+      setCommands((c) => ({ ...c, [side]: recordCommand(c[side], command) }));
+      const { mode, targetTemp, schedule } = command.after;
+      setZones((z) => ({ ...z, [side]: { ...z[side], mode, targetTemp, schedule } }));
+      persistSide(side, settingsPatch(command)).then((error) => {
+        setCommands((c) => {
+          if (!error) return updateCommands(c, (o) => o.id === id && o.status === 'pending', { status: 'applied' });
+          const rejected = updateCommands(c, (o) => o.id === id, { status: 'rejected', error: error.message });
+          // A refused undo leaves the change it tried to revert in place.
+          return undoes === undefined
+            ? rejected
+            : updateCommands(rejected, (o) => o.group === undoes && o.status === 'undone', { status: 'applied' });
+        });
+        if (error && latestCommand.current[side] === id) {
+          setZones((z) => ({ ...z, [side]: { ...z[side], ...command.before } }));
+        }
+      });
     },
-  });
-  const [editing, setEditing] = React.useState<Side>('left');
-  const [unit, setUnit] = React.useState<'F' | 'C'>('F');
-  const [page, setPage] = React.useState<'home' | 'settings' | 'schedule'>('home');
-  const [sideNames, setSideNames] = React.useState<{ left: string; right: string }>({
-    left: 'Left',
-    right: 'Right',
-  });
+    [persistSide],
+  );
 
   const updateZone = (side: Side, updater: (z: ZoneState) => ZoneState) =>
-    setZones((z) => ({ ...z, [side]: updater(z[side]) }));
+    persistZone(side, zones[side], updater(zones[side]));
 
-  const fToC = (f: number) => ((f - 32) * 5) / 9;
-  const cToF = (c: number) => (c * 9) / 5 + 32;
-  const toUnit = (t: number) => (unit === 'C' ? Math.round(fToC(t) * 10) / 10 : Math.round(t));
-  const fromUnit = (t: number) => (unit === 'C' ? cToF(t) : t);
+  const renameSide = (side: Side, name: string) => {
+    setSideNames((n) => ({ ...n, [side]: name }));
+    persistSide(side, { name });
+  };
 
-  const tempCfg = unit === 'C'
-    ? { min: 13, max: 43.5, mid: 28, step: 0.5 }
-    : { min: 55, max: 110, mid: 82, step: 1 };
+  /** Starts an auto-off timer of `minutes` on a side, or cancels it with `null`. */
+  const setAutoOff = (side: Side, minutes: number | null) => {
+    const autoOffAt = minutes === null ? undefined : Date.now() + minutes * 60_000;
+    setZones((z) => ({ ...z, [side]: { ...z[side], autoOffAt } }));
+    persistSide(side, { autoOffAt: autoOffAt ?? null });
+  };
 
-  const changeTemp = (side: Side, delta: number) =>
-    updateZone(side, (z) => {
-      const currentTarget = toUnit(z.targetTemp ?? fromUnit(tempCfg.mid));
-      let next = currentTarget + delta;
-      next = Math.min(tempCfg.max, Math.max(tempCfg.min, next));
-      const nextF = fromUnit(next);
-      const mode =
-        z.mode === 'off'
-          ? z.mode
-          : nextF > z.currentTemp
-          ? 'heat'
-          : nextF < z.currentTemp
-          ? 'cool'
-          : z.mode;
-      return { ...z, targetTemp: nextF, mode };
-    });
+  // Like side changes, only the answer to the newest save replaces the local presets.
+  const savePresets = (next: Preset[]) => {
+    const save = ++lastPresetSave.current;
+    setPresets(next);
+    putPresets(bedId, next).then(
+      (bed) => {
+        if (save === lastPresetSave.current) syncBed(bed);
+      },
+      (error: Error) => {
+        console.error(error);
+        setNotice(error.message);
+        fetchBed(bedId).then(syncBed, (reloadError) => console.error(reloadError));
+      },
+    );
+  };
 
-  const togglePower = (side: Side) =>
-    updateZone(side, (z) => {
-      if (z.mode === 'off') {
-        const target = z.targetTemp ?? z.currentTemp;
-        const mode =
-          target > z.currentTemp ? 'heat' : target < z.currentTemp ? 'cool' : 'heat';
-        return { ...z, mode, targetTemp: target };
-      }
-      return { ...z, mode: 'off' };
+  /** Reads a configuration file and applies it to this bed, reporting the field of a bad one. */
+  const importFile = async (file: File) => {
+    setImportError(null);
+    let config;
+    try {
+      config = parseConfigDocument(JSON.parse(await file.text()));
+    } catch (error) {
+      setImportError(error instanceof SyntaxError ? text.notJson(file.name) : (error as Error).message);
+      return;
+    }
+    try {
+      syncBed(await putConfig(bedId, config));
+      setUnit(config.unit);
+      setNotice(text.importedSettings(file.name));
+    } catch (error) {
+      setImportError((error as Error).message);
+    }
+  };
+
+  const changePresence = (side: Side, patch: Partial<PresenceSettings>) => {
+    setPresence((p) => ({ ...p, [side]: { ...p[side], ...patch } }));
+    patchPresence(bedId, { [side]: patch })
+      .then(syncBed)
+      .catch((error) => {
+        setNotice(error.message);
+        return fetchBed(bedId).then(syncBed);
+      });
+  };
+
+  const changeAutopilot = (side: Side, mode: AutopilotMode) => {
+    setAutopilot((a) => ({ ...a, [side]: { ...a[side], mode } }));
+    patchAutopilot(bedId, { [side]: { mode } })
+      .then(syncBed)
+      .catch((error) => {
+        setNotice(error.message);
+        return fetchBed(bedId).then(syncBed);
+      });
+  };
+
+  /** Reads a wearable's sleep export and hands it to a side's autopilot. */
+  const importSleepFile = async (side: Side, file: File) => {
+    setSleepImportError(null);
+    let epochs;
+    try {
+      epochs = parseSleepData(await file.text());
+    } catch (error) {
+      setSleepImportError((error as Error).message);
+      return;
+    }
+    try {
+      const bed = await postSleepData(bedId, side, epochs);
+      syncBed(bed);
+      const open = bed.autopilot[side].recommendations.filter(
+        (r) => r.status === 'proposed' || r.status === 'applied',
+      ).length;
+      setNotice(
+        text.importedReadings(format.number(epochs.length), file.name) +
+          (open ? ` · ${text.changesToReview(open)}` : ''),
+      );
+    } catch (error) {
+      setSleepImportError((error as Error).message);
+    }
+  };
+
+  /** Accepts or rejects a recommendation; the server changes the program as needed. */
+  const decide = (side: Side, id: string, status: 'accepted' | 'rejected') =>
+    decideRecommendation(bedId, side, id, status)
+      .then(syncBed)
+      .catch((error) => {
+        setNotice(error.message);
+        return fetchBed(bedId).then(syncBed);
+      });
+
+  const changeSafety = (patch: Partial<SafetySettings>) => {
+    setSafety((s) => ({ ...s, ...patch }));
+    patchSafety(bedId, patch)
+      .then(syncBed)
+      .catch((error) => {
+        setNotice(error.message);
+        return fetchBed(bedId).then(syncBed);
+      });
+  };
+
+  // Changes from other devices arrive one side at a time; our own writes are
+  // already reflected locally and confirmed by the PATCH response. Telemetry
+  // keeps the sensed temperatures live.
+  React.useEffect(
+    () =>
+      subscribeBed(bedId, (event) => {
+        if (event.type === 'snapshot') return syncBed(event.bed);
+        if (event.type === 'telemetry') {
+          const { side, reading } = event;
+          return setZones((z) => {
+            const zone = { ...z[side], currentTemp: reading.currentTemp, fault: reading.fault };
+            if (!reading.fault) delete zone.fault;
+            return { ...z, [side]: zone };
+          });
+        }
+        if (event.origin === CLIENT_ID) return;
+        const { side, bed } = event;
+        if (event.automation) {
+          // Changes made by the server's schedules are listed with the side's own.
+          const id = ++commandSeq.current;
+          const command: ZoneCommand = {
+            id,
+            group: id,
+            side,
+            at: Date.now(),
+            before: settingsOf(shownZones.current[side]),
+            after: settingsOf(bed.zones[side]),
+            status: 'applied',
+            source: event.automation,
+          };
+          setCommands((c) => ({ ...c, [side]: recordAutomation(c[side], command, bed.zones[side].schedule?.wake) }));
+        }
+        versions.current = { ...versions.current, [side]: bed.versions[side] };
+        setZones((z) => ({ ...z, [side]: bed.zones[side] }));
+        setSideNames((n) => ({ ...n, [side]: bed.sideNames[side] }));
+        const { intervention, presencePause, mode } = bed.zones[side];
+        if (event.overwrote === CLIENT_ID) {
+          setNotice(text.replacedByOtherDevice(bed.sideNames[side]));
+        } else if (!event.origin && presencePause && mode === 'off') {
+          // Presence automation turned the side off after it stayed empty.
+          setNotice(text.turnedOffWhileEmpty(bed.sideNames[side]));
+        } else if (!event.origin && intervention) {
+          // Changes without an origin were made by the server's safety rules.
+          setNotice(text.changedBySafety(bed.sideNames[side], zoneText.safetyRules[intervention.rule].description));
+        }
+      }),
+    [bedId, syncBed, text, zoneText],
+  );
+
+  // Values are shown in the display unit, snapped to its step; everything
+  // stored stays in Fahrenheit.
+  const toUnit = (f: number) => displayTemp(f, unit);
+  const fromUnit = (t: number) => unitToF(t, unit);
+
+  // Limits come from the controller and the safety maximum, snapped inward to
+  // whole steps of the unit.
+  const tempCfg = targetRange(capabilities, safety, unit);
+
+  // Comfort levels spread over the same range the absolute controls offer.
+  const comfortRange: ComfortRange | undefined = comfort
+    ? { min: fromUnit(tempCfg.min), mid: fromUnit(tempCfg.mid), max: fromUnit(tempCfg.max) }
+    : undefined;
+
+  /** Falls back to another active mode when the controller lacks `mode`. */
+  const supported = React.useCallback((mode: Mode): Mode => supportedMode(mode, capabilities), [capabilities]);
+
+  /** Keeps a Fahrenheit target within the limits of `tempCfg` and the controller. */
+  const limitTarget = (f: number) => clampTarget(f, capabilities, safety, unit);
+
+  /** A side with a new Fahrenheit target; a powered side switches mode to reach it. */
+  const retarget = (z: ZoneState, targetTemp: number) => retargetZone(z, targetTemp, capabilities);
+
+  /** A side turned on or off; turning on picks the mode that reaches its target. */
+  const setPower = (z: ZoneState, on: boolean) => powerZone(z, on, capabilities);
+
+  const otherSide = (side: Side): Side => (side === 'left' ? 'right' : 'left');
+
+  /** Target the other side follows while linked, keeping right = left + offset. */
+  const linkedTarget = (side: Side, f: number, offset = link.offset) =>
+    limitTarget(side === 'left' ? f + offset : f - offset);
+
+  /** Sets a side's target in Fahrenheit, within the limits of `tempCfg`. */
+  const setTarget = (side: Side, targetTemp: number) => {
+    if (faulted(side)) return;
+    const nextF = limitTarget(targetTemp);
+    updateZone(side, (z) => retarget(z, nextF));
+    if (link.enabled && !faulted(otherSide(side))) updateZone(otherSide(side), (z) => retarget(z, linkedTarget(side, nextF)));
+  };
+
+  const togglePower = (side: Side) => {
+    if (faulted(side)) return;
+    const on = zones[side].mode === 'off';
+    updateZone(side, (z) => setPower(z, on));
+    if (link.enabled && !faulted(otherSide(side))) updateZone(otherSide(side), (z) => setPower(z, on));
+  };
+
+  /** Links or unlinks the sides; linking copies the edited side's settings to the other. */
+  const changeLink = (next: LinkSettings) => {
+    setLink(next);
+    // Only the link is taken from the answer; the mirrored side below is
+    // confirmed by its own write.
+    patchLink(bedId, next)
+      .then((bed) => setLink(bed.link))
+      .catch((error) => {
+        setNotice(error.message);
+        return fetchBed(bedId).then(syncBed);
+      });
+    if (!next.enabled || faulted(otherSide(editing))) return;
+    const source = zones[editing];
+    updateZone(otherSide(editing), (z) =>
+      setPower(
+        source.targetTemp === undefined ? z : retarget(z, linkedTarget(editing, source.targetTemp, next.offset)),
+        source.mode !== 'off',
+      ),
+    );
+  };
+
+  /**
+   * A side after applying a preset. The target is limited like `setTarget` and
+   * the mode follows it, falling back to the preset's mode when they are equal.
+   */
+  const withPreset = (z: ZoneState, { mode, targetTemp }: PresetSide): ZoneState => {
+    if (mode === 'off') return { ...z, mode };
+    const target = limitTarget(targetTemp ?? z.targetTemp ?? z.currentTemp);
+    return { ...z, targetTemp: target, mode: supported(modeFor(target, z.currentTemp, mode)) };
+  };
+
+  const applyPreset = (preset: Preset) =>
+    (Object.entries(preset.sides) as [Side, PresetSide][])
+      .filter(([side]) => !faulted(side))
+      .forEach(([side, setting]) => updateZone(side, (z) => withPreset(z, setting)));
+
+  /** Saves the present mode and target of one or both sides as a new preset. */
+  const capturePreset = (which: Side | 'both') => {
+    const sides: Preset['sides'] = {};
+    (which === 'both' ? (['left', 'right'] as const) : [which]).forEach((side) => {
+      const { mode, targetTemp } = zones[side];
+      sides[side] = mode === 'off' ? { mode } : { mode, targetTemp };
     });
+    savePresets([
+      ...presets,
+      { id: Date.now().toString(36), name: text.newPresetName(format.number(presets.length + 1)), sides },
+    ]);
+  };
+
+  const movePreset = (index: number, by: -1 | 1) => {
+    const next = [...presets];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    savePresets(next);
+  };
+
+  const describePreset = ({ sides }: Preset) =>
+    (['left', 'right'] as const)
+      .flatMap((side) => {
+        const setting = sides[side];
+        if (!setting) return [];
+        const temp =
+          setting.mode !== 'off' && setting.targetTemp !== undefined
+            ? ` ${formatTarget(setting.targetTemp)}`
+            : '';
+        return [`${sideNames[side]} ${zoneText.modes[setting.mode]}${temp}`];
+      })
+      .join(' · ');
 
   const toggleSchedule = (side: Side, running: boolean) =>
     updateZone(side, (z) => ({ ...z, schedule: { ...z.schedule, running } }));
 
-  const setScheduleStart = (side: Side, nextStart: string) =>
+  const setDayProgram = (side: Side, days: readonly Weekday[], setpoints: Setpoint[]) =>
+    updateZone(side, (z) => {
+      const program = { ...z.schedule?.program };
+      days.forEach((d) => {
+        program[d] = setpoints;
+      });
+      return { ...z, schedule: { ...z.schedule, running: z.schedule?.running ?? false, program } };
+    });
+
+  const setWake = (side: Side, patch: Partial<WakeAlarm>) =>
     updateZone(side, (z) => ({
       ...z,
-      schedule: { running: z.schedule?.running ?? false, nextStart },
+      schedule: {
+        ...z.schedule,
+        running: z.schedule?.running ?? false,
+        wake: { ...DEFAULT_WAKE_ALARM, ...z.schedule?.wake, ...patch },
+      },
     }));
 
+  /** Cools a side at `temp` (Fahrenheit) for `minutes`, after which it turns off. */
+  const startSleepTimer = (side: Side, minutes: number, temp: number) =>
+    updateZone(side, (z) => ({
+      ...z,
+      mode: supported('cool'),
+      targetTemp: clampTemp(Math.min(temp, safety.maxTemp), capabilities),
+      schedule: {
+        ...z.schedule,
+        running: z.schedule?.running ?? false,
+        sleepTimer: { endsAt: Date.now() + minutes * 60_000 },
+      },
+    }));
+
+  const cancelSleepTimer = (side: Side) =>
+    updateZone(side, (z) => ({
+      ...z,
+      schedule: { ...z.schedule, running: z.schedule?.running ?? false, sleepTimer: undefined },
+    }));
+
+  const dayProgram = zones[editing].schedule?.program?.[scheduleDay] ?? [];
+
+  /** Changes one setpoint of the day shown, keeping the day in time order. */
+  const updateSetpoint = (index: number, patch: Partial<Setpoint>) =>
+    setDayProgram(
+      editing,
+      [scheduleDay],
+      sortSetpoints(dayProgram.map((sp, i) => (i === index ? { ...sp, ...patch } : sp))),
+    );
+
+  const addSetpoint = () => {
+    const last = dayProgram[dayProgram.length - 1];
+    const next: Setpoint = last
+      ? { time: formatTime(timeToMinutes(last.time) + 60), temp: last.temp }
+      : { time: '22:00', temp: clampTemp(fromUnit(tempCfg.mid), capabilities) };
+    setDayProgram(editing, [scheduleDay], sortSetpoints([...dayProgram, next]));
+  };
+
+  const tempRange = (max: number) =>
+    Array.from({ length: Math.round((max - tempCfg.min) / tempCfg.step) + 1 }, (_, i) =>
+      snap(tempCfg.min + i * tempCfg.step, tempCfg.step),
+    );
+  const tempOptions = tempRange(tempCfg.max);
+
+  // The history page refreshes its samples while it is open.
+  React.useEffect(() => {
+    if (page !== 'history') return;
+    let cancelled = false;
+    const load = () => {
+      const { from, to } = rangeWindow(historyRange, new Date());
+      fetchHistory(bedId, from, to).then(
+        (samples) => !cancelled && setHistory({ from, to, samples }),
+        (error) => console.error(error),
+      );
+    };
+    load();
+    const id = setInterval(load, 30_000);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [bedId, page, historyRange]);
+
+  // Undo reverts the last user change on every side it touched, as long as
+  // nothing has changed those sides since.
+  const undoGroup = lastUndoable(commands);
+  const undoSteps = (['left', 'right'] as const).flatMap((side) => {
+    const steps = undoGroup.filter((c) => c.side === side);
+    return steps.length ? [{ side, before: steps[steps.length - 1].before, after: steps[0].after }] : [];
+  });
+  const canUndo =
+    undoSteps.length > 0 &&
+    undoSteps.every(({ side, after }) => !faulted(side) && sameSettings(settingsOf(zones[side]), after));
+  const formatTarget = (f: number) => format.temp(f, unit);
+  const describe = (command: ZoneCommand) => describeCommand(command, formatTarget, text, zoneText.modes);
+
+  /** The evidence behind a recommendation, formatted for its explanation. */
+  const evidenceText = ({ metric }: Recommendation, { temp, minutes, value }: TempEvidence): EvidenceText => ({
+    value: metric === 'deep' ? format.percent(value) : format.number(value, 0),
+    duration: minutes < 90 ? text.minutes(format.number(minutes, 0)) : text.hours(format.number(minutes / 60)),
+    temp: formatTarget(temp),
+  });
+  const explain = (r: Recommendation) =>
+    text.explanations[r.metric](evidenceText(r, r.best), evidenceText(r, r.current), r.nights);
 
-  const pageTitle = page === 'home' ? 'Home' : page === 'settings' ? 'Settings' : 'Schedule';
+  const undo = () => {
+    if (!canUndo) return;
+    const { group } = undoGroup[0];
+    setCommands((c) => updateCommands(c, (o) => o.group === group && o.status !== 'rejected', { status: 'undone' }));
+    undoSteps.forEach(({ side, before }) =>
+      persistZone(side, zones[side], { ...zones[side], ...before }, { undoes: group }),
+    );
+  };
+
+  const editingFault = zones[editing].fault;
+  const faultAlert = editingFault && (
+    <Alert severity="error" sx={{ width: '100%' }}>
+      {`${sideNames[editing]}: ${zoneText.faults[editingFault].label}. ${zoneText.faults[editingFault].description}`}
+    </Alert>
+  );
 
   return (
     <>
-      <Typography variant="h6" align="center" sx={{ mt: 1 }}>
-        {pageTitle}
-      </Typography>
+      <Stack direction="row" alignItems="center" sx={{ mt: 1, px: 1 }}>
+        <IconButton component={Link} href="/beds" aria-label={text.allBeds}>
+          <ArrowBackIcon />
+        </IconButton>
+        <Typography variant="h6" align="center" sx={{ flex: 1, pr: 5 }}>
+          {text.pages[page]}
+          <Typography component="span" variant="body2" color="text.secondary" sx={{ display: 'block' }}>
+            {bedName}
+          </Typography>
+        </Typography>
+      </Stack>
       {page === 'home' ? (
         <Stack
           spacing={2}
@@ -113,68 +775,477 @@ export default function BedDemo() {
             right={zones.right}
             editingSide={editing}
             onSideClick={(s) => setEditing(s)}
+            onTargetChange={setTarget}
+            step={tempCfg.step}
+            min={tempCfg.min}
+            max={tempCfg.max}
+            locked={locked}
+            onUnlock={() => changeSafety({ childLock: false })}
+            linked={link.enabled}
             width={360}
             unit={unit}
+            comfortRange={comfortRange}
             sideNames={sideNames}
+            now={now}
+            timeZone={timeZone}
+            locale={locale}
+            hourCycle={hourCycle ?? undefined}
           />
 
+          <Stack direction="row" spacing={1} alignItems="center">
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={link.enabled}
+                  onChange={(e) => changeLink({ ...link, enabled: e.target.checked })}
+                  disabled={locked}
+                />
+              }
+              label={text.linkSides}
+            />
+            <TextField
+              select
+              label={text.linkOffset(sideNames.right, `°${unit}`)}
+              size="small"
+              value={snap(deltaToUnit(link.offset, unit), tempCfg.step)}
+              onChange={(e) => changeLink({ ...link, offset: deltaFromUnit(Number(e.target.value), unit) })}
+              SelectProps={{ native: true }}
+              disabled={locked || !link.enabled}
+              sx={{ width: 140 }}
+            >
+              {LINK_OFFSETS.map((o) => (
+                <option key={o} value={snap(o * tempCfg.step, tempCfg.step)}>
+                  {o > 0 ? '+' : ''}
+                  {format.number(snap(o * tempCfg.step, tempCfg.step))}
+                </option>
+              ))}
+            </TextField>
+          </Stack>
+
+          {presets.length > 0 && (
+            <Stack direction="row" spacing={1} flexWrap="wrap" justifyContent="center" useFlexGap>
+              {presets.map((preset) => (
+                <Chip
+                  key={preset.id}
+                  label={preset.name || text.untitled}
+                  title={describePreset(preset)}
+                  onClick={() => applyPreset(preset)}
+                  disabled={locked}
+                  variant="outlined"
+                />
+              ))}
+            </Stack>
+          )}
+
           <Tabs
             value={editing}
             onChange={(_, v) => v && setEditing(v)}
-            aria-label="bed side controls"
+            aria-label={text.sideControls}
             textColor="secondary"
             indicatorColor="secondary"
           >
             <Tab label={sideNames.left} value="left" />
             <Tab label={sideNames.right} value="right" />
           </Tabs>
+          {faultAlert}
 
           {(() => {
             const z = zones[editing];
-            const target = toUnit(z.targetTemp ?? fromUnit(tempCfg.mid));
             return (
               <Stack spacing={1} alignItems="center">
-                <IconButton
-                  color={z.mode === 'off' ? 'default' : 'secondary'}
-                  onClick={() => togglePower(editing)}
-                >
-                  <PowerSettingsNewIcon />
-                </IconButton>
-                <Stack direction="row" spacing={1} alignItems="center">
-                  <IconButton onClick={() => changeTemp(editing, -tempCfg.step)}>
-                    <RemoveIcon />
+                <Stack direction="row" spacing={1}>
+                  <IconButton
+                    aria-label={(z.mode === 'off' ? text.turnOn : text.turnOff)(sideNames[editing])}
+                    color={z.mode === 'off' ? 'default' : 'secondary'}
+                    onClick={() => togglePower(editing)}
+                    disabled={sideLocked}
+                  >
+                    <PowerSettingsNewIcon />
                   </IconButton>
-                  <Typography sx={{ fontSize: 24, width: 72, textAlign: 'center' }}>
-                    {target}
-                    {`°${unit}`}
-                  </Typography>
-                  <IconButton onClick={() => changeTemp(editing, tempCfg.step)}>
-                    <AddIcon />
+                  <IconButton
+                    aria-label={canUndo ? text.undoChange(describe(undoGroup[0])) : text.undo}
+                    title={canUndo ? text.undoChange(describe(undoGroup[0])) : undefined}
+                    onClick={undo}
+                    disabled={locked || !canUndo}
+                  >
+                    <UndoIcon />
                   </IconButton>
                 </Stack>
+                <ThermostatDial
+                  currentTemp={z.currentTemp}
+                  targetTemp={z.targetTemp}
+                  mode={z.mode}
+                  onChange={(targetTemp) => setTarget(editing, targetTemp)}
+                  comfortRange={comfortRange}
+                  unit={unit}
+                  step={tempCfg.step}
+                  min={tempCfg.min}
+                  max={tempCfg.max}
+                  label={text.sideTarget(sideNames[editing])}
+                  disabled={sideLocked}
+                  locale={locale}
+                />
+                <TextField
+                  select
+                  label={text.autoOff}
+                  size="small"
+                  value={z.autoOffAt === undefined ? 'off' : 'set'}
+                  onChange={(e) =>
+                    e.target.value !== 'set' &&
+                    setAutoOff(editing, e.target.value === 'off' ? null : Number(e.target.value))
+                  }
+                  SelectProps={{ native: true }}
+                  disabled={sideLocked}
+                  sx={{ width: 160 }}
+                >
+                  <option value="off">{text.off}</option>
+                  {z.autoOffAt !== undefined && (
+                    <option value="set">{text.autoOffAt(format.clock(z.autoOffAt))}</option>
+                  )}
+                  {AUTO_OFF_MINUTES.map((m) => (
+                    <option key={m} value={m}>
+                      {text.autoOffIn(formatDuration(m))}
+                    </option>
+                  ))}
+                </TextField>
               </Stack>
             );
           })()}
+
+          <Stack spacing={0.5} sx={{ width: '100%' }}>
+            <Typography variant="subtitle2">{text.recentChanges(sideNames[editing])}</Typography>
+            <Box
+              sx={{ maxHeight: 200, overflowY: 'auto', border: '1px solid', borderColor: 'divider', borderRadius: 1 }}
+            >
+              <List dense disablePadding aria-label={text.recentChanges(sideNames[editing])}>
+                {commands[editing].length === 0 ? (
+                  <ListItem>
+                    <ListItemText secondary={text.noChanges} />
+                  </ListItem>
+                ) : (
+                  commands[editing].map((command) => (
+                    <ListItem key={command.id}>
+                      <ListItemIcon sx={{ minWidth: 32 }}>{COMMAND_STATUS_ICONS[command.status]}</ListItemIcon>
+                      <ListItemText
+                        primary={describe(command)}
+                        secondary={[
+                          format.clock(command.at),
+                          command.source && text.automations[command.source],
+                          text.commandStatuses[command.status],
+                          command.error,
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      />
+                    </ListItem>
+                  ))
+                )}
+              </List>
+            </Box>
+          </Stack>
+        </Stack>
+      ) : page === 'history' ? (
+        <Stack
+          spacing={2}
+          sx={{ p: 2, maxWidth: 360, mx: 'auto', minHeight: 'calc(100vh - 56px)', pb: 7, alignItems: 'center' }}
+        >
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={historyRange}
+            onChange={(_, v: HistoryRange | null) => v && setHistoryRange(v)}
+            aria-label={text.historyRange}
+          >
+            {HISTORY_RANGES.map((r) => (
+              <ToggleButton key={r} value={r}>
+                {text.historyRanges[r]}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          {history &&
+            (['left', 'right'] as const).map((side) => (
+              <ZoneHistoryChart
+                key={side}
+                name={sideNames[side]}
+                samples={history.samples[side]}
+                from={history.from}
+                to={history.to}
+                unit={unit}
+                locale={locale}
+                hourCycle={hourCycle ?? undefined}
+              />
+            ))}
         </Stack>
       ) : page === 'settings' ? (
         <Stack
           spacing={2}
           sx={{ p: 2, maxWidth: 360, mx: 'auto', minHeight: 'calc(100vh - 56px)', pb: 7 }}
         >
-          <FormControlLabel
-            control={<Switch checked={unit === 'C'} onChange={(e) => setUnit(e.target.checked ? 'C' : 'F')} />}
-            label="Show °C"
-          />
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={comfort ? 'level' : unit}
+            onChange={(_, v: TempUnit | 'level' | null) => {
+              if (!v) return;
+              setComfort(v === 'level');
+              if (v !== 'level') setUnit(v);
+            }}
+            aria-label={text.temperatureDisplay}
+          >
+            <ToggleButton value="F">°F</ToggleButton>
+            <ToggleButton value="C">°C</ToggleButton>
+            <ToggleButton value="level">{text.comfortLevel}</ToggleButton>
+          </ToggleButtonGroup>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={themeMode ?? null}
+            onChange={(_, v: 'light' | 'dark' | 'system' | null) => v && setThemeMode(v)}
+            aria-label={text.colorScheme}
+          >
+            <ToggleButton value="light" sx={{ gap: 0.5 }}>
+              <LightModeIcon fontSize="small" />
+              {text.themeModes.light}
+            </ToggleButton>
+            <ToggleButton value="dark" sx={{ gap: 0.5 }}>
+              <DarkModeIcon fontSize="small" />
+              {text.themeModes.dark}
+            </ToggleButton>
+            <ToggleButton value="system" sx={{ gap: 0.5 }}>
+              <SettingsBrightnessIcon fontSize="small" />
+              {text.themeModes.system}
+            </ToggleButton>
+          </ToggleButtonGroup>
           <TextField
-            label="Left name"
+            select
+            label={text.language}
+            value={locale}
+            onChange={(e) => updateSharedPreferences({ locale: e.target.value as Locale })}
+            SelectProps={{ native: true }}
+          >
+            {LOCALES.map((l) => (
+              <option key={l} value={l}>
+                {LOCALE_NAMES[l]}
+              </option>
+            ))}
+          </TextField>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={hourCycle ?? 'auto'}
+            onChange={(_, v: HourCycle | 'auto' | null) =>
+              v && updateSharedPreferences({ hourCycle: v === 'auto' ? null : v })
+            }
+            aria-label={text.timeFormat}
+          >
+            <ToggleButton value="auto">{text.hourCycles.auto}</ToggleButton>
+            <ToggleButton value="12h">{text.hourCycles['12h']}</ToggleButton>
+            <ToggleButton value="24h">{text.hourCycles['24h']}</ToggleButton>
+          </ToggleButtonGroup>
+          <CommitTextField
+            label={text.sideNameLabels.left}
             value={sideNames.left}
-            onChange={(e) => setSideNames((n) => ({ ...n, left: e.target.value }))}
+            onCommit={(name) => renameSide('left', name)}
+            disabled={locked}
           />
-          <TextField
-            label="Right name"
+          <CommitTextField
+            label={text.sideNameLabels.right}
             value={sideNames.right}
-            onChange={(e) => setSideNames((n) => ({ ...n, right: e.target.value }))}
+            onCommit={(name) => renameSide('right', name)}
+            disabled={locked}
           />
+
+          <Typography variant="subtitle2">{text.presets}</Typography>
+          {presets.map((preset, i) => (
+            <Stack key={preset.id} direction="row" spacing={0.5} alignItems="center">
+              <CommitTextField
+                label={text.presetName}
+                size="small"
+                value={preset.name}
+                onCommit={(name) => savePresets(presets.map((p) => (p.id === preset.id ? { ...p, name } : p)))}
+                helperText={describePreset(preset)}
+                disabled={locked}
+                sx={{ flex: 1 }}
+              />
+              <IconButton
+                aria-label={text.movePresetUp(preset.name)}
+                onClick={() => movePreset(i, -1)}
+                disabled={locked || i === 0}
+                size="small"
+              >
+                <ArrowUpwardIcon fontSize="small" />
+              </IconButton>
+              <IconButton
+                aria-label={text.movePresetDown(preset.name)}
+                onClick={() => movePreset(i, 1)}
+                disabled={locked || i === presets.length - 1}
+                size="small"
+              >
+                <ArrowDownwardIcon fontSize="small" />
+              </IconButton>
+              <IconButton
+                aria-label={text.deletePreset(preset.name)}
+                onClick={() => savePresets(presets.filter((p) => p.id !== preset.id))}
+                disabled={locked}
+                size="small"
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Stack>
+          ))}
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField
+              select
+              label={text.capture}
+              size="small"
+              value={presetSides}
+              onChange={(e) => setPresetSides(e.target.value as Side | 'both')}
+              SelectProps={{ native: true }}
+              disabled={locked}
+              sx={{ flex: 1 }}
+            >
+              <option value="both">{text.bothSides}</option>
+              <option value="left">{text.sideOnly(sideNames.left)}</option>
+              <option value="right">{text.sideOnly(sideNames.right)}</option>
+            </TextField>
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => capturePreset(presetSides)}
+              disabled={locked || presets.length >= MAX_PRESETS}
+            >
+              {text.saveCurrent}
+            </Button>
+          </Stack>
+
+          <Typography variant="subtitle2">{text.presence}</Typography>
+          {SIDES.map((side) => (
+            <Stack key={side} spacing={1}>
+              <TextField
+                select
+                label={text.turnOffWhenEmpty(sideNames[side])}
+                size="small"
+                value={presence[side].offAfterMinutes ?? 'never'}
+                onChange={(e) =>
+                  changePresence(side, {
+                    offAfterMinutes: e.target.value === 'never' ? null : Number(e.target.value),
+                  })
+                }
+                SelectProps={{ native: true }}
+                disabled={locked}
+              >
+                <option value="never">{text.never}</option>
+                {EMPTY_MINUTES.map((m) => (
+                  <option key={m} value={m}>
+                    {formatDuration(m)}
+                  </option>
+                ))}
+              </TextField>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={presence[side].resumeOnReturn}
+                    onChange={(e) => changePresence(side, { resumeOnReturn: e.target.checked })}
+                  />
+                }
+                label={text.resumeOnReturn}
+                disabled={locked || presence[side].offAfterMinutes === null}
+              />
+            </Stack>
+          ))}
+
+          <Typography variant="subtitle2">{text.safety}</Typography>
+          <TextField
+            select
+            label={text.maxTemp(`°${unit}`)}
+            size="small"
+            value={Math.min(toUnit(safety.maxTemp), tempCfg.ceiling)}
+            onChange={(e) => changeSafety({ maxTemp: clampTemp(fromUnit(Number(e.target.value)), capabilities) })}
+            SelectProps={{ native: true }}
+            disabled={locked}
+          >
+            {tempRange(tempCfg.ceiling).map((t) => (
+              <option key={t} value={t}>
+                {format.number(t)}
+              </option>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label={text.maxHeatTime}
+            size="small"
+            value={safety.maxHeatMinutes ?? 'none'}
+            onChange={(e) =>
+              changeSafety({ maxHeatMinutes: e.target.value === 'none' ? null : Number(e.target.value) })
+            }
+            SelectProps={{ native: true }}
+            disabled={locked}
+          >
+            <option value="none">{text.noLimit}</option>
+            {MAX_HEAT_MINUTES.map((m) => (
+              <option key={m} value={m}>
+                {formatDuration(m)}
+              </option>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label={text.safeTemp(`°${unit}`)}
+            size="small"
+            value={toUnit(safety.safeTemp)}
+            onChange={(e) => changeSafety({ safeTemp: clampTemp(fromUnit(Number(e.target.value)), capabilities) })}
+            SelectProps={{ native: true }}
+            disabled={locked || safety.maxHeatMinutes === null}
+          >
+            {tempOptions.map((t) => (
+              <option key={t} value={t}>
+                {format.number(t)}
+              </option>
+            ))}
+          </TextField>
+          <FormControlLabel
+            control={
+              <Switch checked={locked} onChange={(e) => e.target.checked && changeSafety({ childLock: true })} />
+            }
+            label={text.childLock}
+            disabled={locked}
+          />
+          {locked && (
+            <Typography variant="body2" color="text.secondary">
+              {text.unlockHint}
+            </Typography>
+          )}
+
+          <Typography variant="subtitle2">{text.importExport}</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {text.importExportHint}
+          </Typography>
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            <Button size="small" startIcon={<DownloadIcon />} href={configUrl(bedId, unit)} download>
+              {text.export}
+            </Button>
+            <Button size="small" startIcon={<UploadIcon />} component="label" disabled={locked}>
+              {text.import}
+              <input
+                type="file"
+                accept="application/json,.json"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) importFile(file);
+                }}
+              />
+            </Button>
+            <Button size="small" startIcon={<EventIcon />} href={calendarUrl(bedId, unit)} download>
+              {text.calendar}
+            </Button>
+          </Stack>
+          {importError && (
+            <Alert severity="error" onClose={() => setImportError(null)}>
+              {text.importFailed(importError)}
+            </Alert>
+          )}
         </Stack>
       ) : (
         <Stack
@@ -186,46 +1257,389 @@ export default function BedDemo() {
             right={zones.right}
             editingSide={editing}
             onSideClick={(s) => setEditing(s)}
+            locked={locked}
+            onUnlock={() => changeSafety({ childLock: false })}
             width={360}
             unit={unit}
+            comfortRange={comfortRange}
             sideNames={sideNames}
+            now={now}
+            timeZone={timeZone}
+            locale={locale}
+            hourCycle={hourCycle ?? undefined}
           />
 
           <Tabs
             value={editing}
             onChange={(_, v) => v && setEditing(v)}
-            aria-label="schedule controls"
+            aria-label={text.scheduleControls}
             textColor="secondary"
             indicatorColor="secondary"
           >
             <Tab label={sideNames.left} value="left" />
             <Tab label={sideNames.right} value="right" />
           </Tabs>
+          {faultAlert}
 
           <FormControlLabel
             control={
               <Switch
                 checked={!!zones[editing].schedule?.running}
                 onChange={(e) => toggleSchedule(editing, e.target.checked)}
+                disabled={sideLocked}
               />
             }
-            label="Schedule running"
+            label={zoneText.scheduleRunning}
           />
 
-          <TextField
-            label="Starts at"
-            type="time"
-            value={zones[editing].schedule?.nextStart ?? ''}
-            onChange={(e) => setScheduleStart(editing, e.target.value)}
-            InputLabelProps={{ shrink: true }}
-          />
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={scheduleDay}
+            onChange={(_, v: Weekday | null) => v !== null && setScheduleDay(v)}
+            aria-label={text.programDay}
+          >
+            {WEEKDAYS.map((d) => (
+              <ToggleButton key={d} value={d} sx={{ px: 1 }}>
+                {format.weekday(d)}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+
+          <Stack spacing={1.5} sx={{ width: '100%' }}>
+            {dayProgram.length === 0 && (
+              <Typography variant="body2" color="text.secondary" align="center">
+                {text.noSetpoints(format.weekday(scheduleDay))}
+              </Typography>
+            )}
+            {dayProgram.map((sp, i) => (
+              <Stack key={i} direction="row" spacing={1} alignItems="center">
+                <CommitTextField
+                  label={text.time}
+                  type="time"
+                  size="small"
+                  value={sp.time}
+                  onCommit={(time) => time && updateSetpoint(i, { time })}
+                  InputLabelProps={{ shrink: true }}
+                  disabled={sideLocked}
+                  sx={{ width: 110 }}
+                />
+                <TextField
+                  select
+                  label={`°${unit}`}
+                  size="small"
+                  value={toUnit(sp.temp)}
+                  onChange={(e) => updateSetpoint(i, { temp: clampTemp(fromUnit(Number(e.target.value)), capabilities) })}
+                  SelectProps={{ native: true }}
+                  disabled={sideLocked}
+                  sx={{ width: 80 }}
+                >
+                  {tempOptions.map((t) => (
+                    <option key={t} value={t}>
+                      {format.number(t)}
+                    </option>
+                  ))}
+                </TextField>
+                <CommitTextField
+                  label={text.label}
+                  size="small"
+                  value={sp.label ?? ''}
+                  onCommit={(label) => updateSetpoint(i, { label: label || undefined })}
+                  disabled={sideLocked}
+                  sx={{ flex: 1 }}
+                />
+                <IconButton
+                  aria-label={text.removeSetpoint}
+                  disabled={sideLocked}
+                  onClick={() =>
+                    setDayProgram(
+                      editing,
+                      [scheduleDay],
+                      dayProgram.filter((_, j) => j !== i),
+                    )
+                  }
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Stack>
+            ))}
+          </Stack>
+
+          <Stack direction="row" spacing={1} flexWrap="wrap" justifyContent="center" useFlexGap>
+            <Button size="small" startIcon={<AddIcon />} onClick={addSetpoint} disabled={sideLocked}>
+              {text.addSetpoint}
+            </Button>
+            {dayProgram.length === 0 ? (
+              <Button
+                size="small"
+                onClick={() => setDayProgram(editing, [scheduleDay], DEFAULT_SETPOINTS)}
+                disabled={sideLocked}
+              >
+                {text.useSampleNight}
+              </Button>
+            ) : (
+              <Button
+                size="small"
+                onClick={() => setDayProgram(editing, WEEKDAYS, dayProgram)}
+                disabled={sideLocked}
+              >
+                {text.copyToEveryDay}
+              </Button>
+            )}
+          </Stack>
+
+          {(() => {
+            const { wake = DEFAULT_WAKE_ALARM, sleepTimer } = zones[editing].schedule ?? {};
+            return (
+              <Stack spacing={1.5} sx={{ width: '100%' }}>
+                <Typography variant="subtitle2">{text.wakeUp}</Typography>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={wake.enabled}
+                      onChange={(e) => setWake(editing, { enabled: e.target.checked })}
+                      disabled={sideLocked}
+                    />
+                  }
+                  label={text.wakeByTemperature}
+                />
+                <Stack direction="row" spacing={1}>
+                  <CommitTextField
+                    label={text.wakeAt}
+                    type="time"
+                    size="small"
+                    value={wake.time}
+                    onCommit={(time) => time && setWake(editing, { time })}
+                    InputLabelProps={{ shrink: true }}
+                    disabled={sideLocked}
+                    sx={{ width: 110 }}
+                  />
+                  <TextField
+                    select
+                    label={`°${unit}`}
+                    size="small"
+                    value={toUnit(wake.temp)}
+                    onChange={(e) =>
+                      setWake(editing, { temp: clampTemp(fromUnit(Number(e.target.value)), capabilities) })
+                    }
+                    SelectProps={{ native: true }}
+                    disabled={sideLocked}
+                    sx={{ width: 80 }}
+                  >
+                    {tempOptions.map((t) => (
+                      <option key={t} value={t}>
+                        {format.number(t)}
+                      </option>
+                    ))}
+                  </TextField>
+                  <TextField
+                    select
+                    label={text.ramp}
+                    size="small"
+                    value={wake.rampMinutes}
+                    onChange={(e) => setWake(editing, { rampMinutes: Number(e.target.value) })}
+                    SelectProps={{ native: true }}
+                    disabled={sideLocked}
+                    sx={{ flex: 1 }}
+                  >
+                    {WAKE_RAMP_MINUTES.map((m) => (
+                      <option key={m} value={m}>
+                        {formatDuration(m)}
+                      </option>
+                    ))}
+                  </TextField>
+                </Stack>
+
+                <Typography variant="subtitle2">{text.sleepTimer}</Typography>
+                {sleepTimer ? (
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Typography variant="body2" sx={{ flex: 1 }}>
+                      {text.coolingUntil(format.clock(sleepTimer.endsAt))}
+                    </Typography>
+                    <Button size="small" onClick={() => cancelSleepTimer(editing)} disabled={sideLocked}>
+                      {text.cancel}
+                    </Button>
+                  </Stack>
+                ) : (
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <TextField
+                      select
+                      label={text.coolFor}
+                      size="small"
+                      value={sleepMinutes}
+                      onChange={(e) => setSleepMinutes(Number(e.target.value))}
+                      SelectProps={{ native: true }}
+                      disabled={sideLocked}
+                      sx={{ width: 110 }}
+                    >
+                      {SLEEP_TIMER_MINUTES.map((m) => (
+                        <option key={m} value={m}>
+                          {formatDuration(m)}
+                        </option>
+                      ))}
+                    </TextField>
+                    <TextField
+                      select
+                      label={`°${unit}`}
+                      size="small"
+                      value={toUnit(sleepTemp)}
+                      onChange={(e) => setSleepTemp(clampTemp(fromUnit(Number(e.target.value)), capabilities))}
+                      SelectProps={{ native: true }}
+                      disabled={sideLocked}
+                      sx={{ width: 80 }}
+                    >
+                      {tempOptions.map((t) => (
+                        <option key={t} value={t}>
+                          {format.number(t)}
+                        </option>
+                      ))}
+                    </TextField>
+                    <Button
+                      size="small"
+                      onClick={() => startSleepTimer(editing, sleepMinutes, sleepTemp)}
+                      disabled={sideLocked}
+                    >
+                      {text.start}
+                    </Button>
+                  </Stack>
+                )}
+              </Stack>
+            );
+          })()}
+
+          <Stack spacing={1.5} sx={{ width: '100%' }}>
+            <Typography variant="subtitle2">{text.autopilot}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {text.autopilotHint}
+            </Typography>
+            <TextField
+              select
+              label={text.autopilot}
+              size="small"
+              value={autopilot[editing].mode}
+              onChange={(e) => changeAutopilot(editing, e.target.value as AutopilotMode)}
+              SelectProps={{ native: true }}
+              disabled={sideLocked}
+            >
+              {AUTOPILOT_MODES.map((m) => (
+                <option key={m} value={m}>
+                  {text.autopilotModes[m]}
+                </option>
+              ))}
+            </TextField>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <Button size="small" startIcon={<UploadIcon />} component="label" disabled={sideLocked}>
+                {text.importSleepData}
+                <input
+                  type="file"
+                  accept="text/csv,.csv,application/json,.json"
+                  hidden
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) importSleepFile(editing, file);
+                  }}
+                />
+              </Button>
+              <Typography variant="body2" color="text.secondary">
+                {autopilot[editing].nights === 0
+                  ? text.noSleepData
+                  : text.nightsOfData(autopilot[editing].nights)}
+              </Typography>
+            </Stack>
+            {sleepImportError && (
+              <Alert severity="error" onClose={() => setSleepImportError(null)}>
+                {text.importFailed(sleepImportError)}
+              </Alert>
+            )}
+            {autopilot[editing].mode !== 'off' &&
+              autopilot[editing].nights > 0 &&
+              autopilot[editing].recommendations.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  {text.noSuggestions}
+                </Typography>
+              )}
+            {autopilot[editing].recommendations.map((r) => {
+              const open = r.status === 'proposed' || r.status === 'applied';
+              return (
+                <Stack
+                  key={r.id}
+                  spacing={1}
+                  sx={{ p: 1.5, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}
+                >
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Typography variant="body2" sx={{ flex: 1, fontWeight: 500 }}>
+                      {r.days.length === WEEKDAYS.length ? text.everyDay : r.days.map(format.weekday).join(', ')}{' '}
+                      {format.time(r.time)}: {formatTarget(r.from)} → {formatTarget(r.to)}
+                    </Typography>
+                    <Chip
+                      size="small"
+                      label={text.recommendationStatuses[r.status]}
+                      color={r.status === 'rejected' ? 'default' : open ? 'info' : 'success'}
+                      variant={open ? 'filled' : 'outlined'}
+                    />
+                  </Stack>
+                  <Typography variant="body2" color="text.secondary">
+                    {explain(r)}
+                  </Typography>
+                  {open && (
+                    <Stack direction="row" spacing={1} justifyContent="flex-end">
+                      <Button size="small" onClick={() => decide(editing, r.id, 'rejected')} disabled={sideLocked}>
+                        {r.status === 'applied' ? text.undo : text.reject}
+                      </Button>
+                      <Button
+                        size="small"
+                        variant="contained"
+                        onClick={() => decide(editing, r.id, 'accepted')}
+                        disabled={sideLocked}
+                      >
+                        {r.status === 'applied' ? text.keep : text.accept}
+                      </Button>
+                    </Stack>
+                  )}
+                </Stack>
+              );
+            })}
+          </Stack>
         </Stack>
       )}
+      <Snackbar
+        open={notice !== null}
+        autoHideDuration={5000}
+        onClose={() => setNotice(null)}
+        message={notice}
+        sx={{ bottom: { xs: 72, sm: 72 } }}
+      />
       <AppBar position="fixed" color="primary" sx={{ top: 'auto', bottom: 0 }}>
-        <BottomNavigation showLabels value={page} onChange={(_, v) => setPage(v)}>
-          <BottomNavigationAction label="Home" value="home" icon={<HomeIcon />} />
-          <BottomNavigationAction label="Schedule" value="schedule" icon={<ScheduleIcon />} />
-          <BottomNavigationAction label="Settings" value="settings" icon={<SettingsIcon />} />
+        <BottomNavigation showLabels value={page}>
+          <BottomNavigationAction
+            label={text.pages.home}
+            value="home"
+            icon={<HomeIcon />}
+            component={Link}
+            href={bedPageHref(bedId, 'home')}
+          />
+          <BottomNavigationAction
+            label={text.pages.schedule}
+            value="schedule"
+            icon={<ScheduleIcon />}
+            component={Link}
+            href={bedPageHref(bedId, 'schedule')}
+          />
+          <BottomNavigationAction
+            label={text.pages.history}
+            value="history"
+            icon={<ShowChartIcon />}
+            component={Link}
+            href={bedPageHref(bedId, 'history')}
+          />
+          <BottomNavigationAction
+            label={text.pages.settings}
+            value="settings"
+            icon={<SettingsIcon />}
+            component={Link}
+            href={bedPageHref(bedId, 'settings')}
+          />
         </BottomNavigation>
       </AppBar>
     </>
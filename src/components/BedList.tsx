@@ -0,0 +1,65 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  Chip,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Stack,
+  Typography,
+} from '@mui/material';
+import BedIcon from '@mui/icons-material/Bed';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import { usePreferences } from '@/hooks/usePreferences';
+import { localeFormat } from '@/lib/i18n';
+import { demoMessages, zoneMessages } from '@/lib/messages';
+import { bedPreferences } from '@/lib/preferences';
+import type { TempUnit } from '@/lib/temperature';
+import { BedSummary, SIDES, ZoneState } from '@/lib/zone';
+
+/** The beds served by the app, each linking to its Home page. */
+export function BedList({ beds }: { beds: BedSummary[] }) {
+  const { preferences } = usePreferences();
+  const { locale, hourCycle } = preferences;
+  const text = demoMessages(locale);
+  const zoneText = zoneMessages(locale);
+  const format = localeFormat(locale, hourCycle ?? undefined);
+
+  const describeZone = (zone: ZoneState, unit: TempUnit) =>
+    zone.fault
+      ? zoneText.faults[zone.fault].label
+      : zone.mode === 'off' || zone.targetTemp === undefined
+      ? text.offAt(format.temp(zone.currentTemp, unit))
+      : (zone.mode === 'heat' ? zoneText.heatingTo : zoneText.coolingTo)(format.temp(zone.targetTemp, unit));
+
+  return (
+    <Stack spacing={1} sx={{ p: 2, maxWidth: 480, mx: 'auto' }}>
+      <Typography variant="h6" align="center">
+        {text.beds}
+      </Typography>
+      <List>
+        {beds.map((bed) => {
+          const { unit } = bedPreferences(preferences, bed.id);
+          return (
+            <ListItemButton key={bed.id} component={Link} href={`/beds/${encodeURIComponent(bed.id)}`}>
+              <ListItemIcon>
+                <BedIcon />
+              </ListItemIcon>
+              <ListItemText
+                primary={bed.name}
+                secondary={
+                  bed.unavailable
+                    ? text.controllerUnavailable
+                    : SIDES.map((side) => `${bed.sideNames[side]}: ${describeZone(bed.zones[side], unit)}`).join(' · ')
+                }
+              />
+              {bed.unavailable ? <Chip size="small" color="error" label={text.offline} /> : <ChevronRightIcon />}
+            </ListItemButton>
+          );
+        })}
+      </List>
+    </Stack>
+  );
+}
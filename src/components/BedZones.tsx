@@ -0,0 +1,913 @@
+'use client';
+
+import * as React from 'react';
+import { Box, ButtonBase, Tooltip, Typography } from '@mui/material';
+import { useTheme, SxProps, Theme } from '@mui/material/styles';
+import AccessTimeIcon from '@mui/icons-material/AccessTime';
+import AlarmIcon from '@mui/icons-material/Alarm';
+import BedtimeIcon from '@mui/icons-material/Bedtime';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import GppMaybeIcon from '@mui/icons-material/GppMaybe';
+import LockIcon from '@mui/icons-material/Lock';
+import LinkIcon from '@mui/icons-material/Link';
+import SensorsOffIcon from '@mui/icons-material/SensorsOff';
+import WaterDropIcon from '@mui/icons-material/WaterDrop';
+import { hidesReading, ZoneFault } from '@/lib/faults';
+import { DEFAULT_LOCALE, HourCycle, localeFormat } from '@/lib/i18n';
+import { ZoneMessages, zoneMessages } from '@/lib/messages';
+import { evaluateSchedule, localClock, ScheduleStatus, wakeProgress } from '@/lib/schedule';
+import { COMFORT_LEVELS, ComfortRange, formatLevel, levelToTemp, tempToLevel } from '@/lib/comfort';
+import { fromUnit, snap, TempUnit, toUnit } from '@/lib/temperature';
+import { Mode, TEMP_RANGE_F, ZoneState } from '@/lib/zone';
+import { fade, modeColor, ZONE_TINT_ALPHA, zonePalette } from './zoneColors';
+
+/** Position of one zone in a bed layout. */
+export interface ZoneSlot {
+  /** Identifier reported by `onZoneClick` and used to look up state and names. */
+  id: string;
+  /** Zero-based column, counted from the left. */
+  column: number;
+  /** Zero-based row; row 0 is the head of the bed. */
+  row: number;
+  /**
+   * Name shown when neither `zoneNames` nor the message catalog's `zoneNames`
+   * provide one.
+   */
+  defaultName: string;
+}
+
+/** Arrangement of the heated or cooled areas of a bed. */
+export interface BedLayout {
+  columns: 1 | 2;
+  rows: 1 | 2;
+  zones: ZoneSlot[];
+  /**
+   * Word used with the zone name in accessible labels (default "zone"), looked
+   * up in the message catalog's `zoneNouns`.
+   */
+  zoneNoun?: string;
+}
+
+/** Layouts of the beds we support: one zone, a zone per side, or head and foot per side. */
+export const BED_LAYOUTS = {
+  single: {
+    columns: 1,
+    rows: 1,
+    zones: [{ id: 'bed', column: 0, row: 0, defaultName: 'Bed' }],
+  },
+  dual: {
+    columns: 2,
+    rows: 1,
+    zoneNoun: 'side',
+    zones: [
+      { id: 'left', column: 0, row: 0, defaultName: 'Left' },
+      { id: 'right', column: 1, row: 0, defaultName: 'Right' },
+    ],
+  },
+  quad: {
+    columns: 2,
+    rows: 2,
+    zones: [
+      { id: 'left-head', column: 0, row: 0, defaultName: 'Left head' },
+      { id: 'right-head', column: 1, row: 0, defaultName: 'Right head' },
+      { id: 'left-foot', column: 0, row: 1, defaultName: 'Left foot' },
+      { id: 'right-foot', column: 1, row: 1, defaultName: 'Right foot' },
+    ],
+  },
+} satisfies Record<string, BedLayout>;
+
+/**
+ * Visual representation of a bed split into one, two or four zones.
+ * Each zone displays its current and target temperature, mode, and optional
+ * schedule information. The zone being edited is highlighted. A faulted zone
+ * is hatched, names its fault with a tooltip explaining it and can't be
+ * adjusted directly.
+ */
+export interface BedZonesProps {
+  /** How the zones are arranged on the bed. */
+  layout: BedLayout;
+  /** State of each zone, keyed by zone id. */
+  zones: Record<string, ZoneState>;
+  /**
+   * Zone whose settings are being edited and therefore highlighted.
+   * Clicking a zone should update this value in the parent component.
+   */
+  editingZone?: string | null;
+  /**
+   * Callback fired with the zone id when a zone is clicked, or selected with
+   * the arrow keys.
+   */
+  onZoneClick?: (id: string) => void;
+  /**
+   * Callback fired with a new target in Fahrenheit when the user presses
+   * Up/Down or PageUp/PageDown on a focused zone, or drags a zone vertically.
+   * Direct adjustment is disabled when this is not provided.
+   */
+  onTargetChange?: (id: string, targetTemp: number) => void;
+  /** Target increment for one key press or drag step, in `unit` (default 1). */
+  step?: number;
+  /** Lowest target reachable by direct adjustment, in `unit`. */
+  min?: number;
+  /** Highest target reachable by direct adjustment, in `unit`. */
+  max?: number;
+  /**
+   * Child lock: zones can't be selected or adjusted, and pressing and holding
+   * any zone (or holding Enter or Space on it) calls `onUnlock`.
+   */
+  locked?: boolean;
+  /** Callback fired after a long press while `locked`. */
+  onUnlock?: () => void;
+  /**
+   * Shows the columns as linked, i.e. changes to one are mirrored on the other,
+   * by bridging the center divider. Zones can still be selected one at a time.
+   */
+  linked?: boolean;
+  /**
+   * Maximum width of the rendered bed in pixels (default 360). The bed scales
+   * down responsively on smaller screens.
+   */
+  width?: number;
+  /** Names displayed for each zone; falls back to the catalog's, then the layout's default names. */
+  zoneNames?: Record<string, string | undefined>;
+  /**
+   * Temperature unit used for display. Zone temperatures are assumed to be
+   * provided in Fahrenheit and will be converted if `unit` is `'C'`.
+   */
+  unit?: TempUnit;
+  /**
+   * Shows targets as comfort levels from −10 to +10 mapped onto this range.
+   * Direct adjustment then moves one level per step, and `step`, `min` and
+   * `max` are ignored. Sensed temperatures are still shown in `unit`.
+   */
+  comfortRange?: ComfortRange;
+  /**
+   * Time used to evaluate schedule programs. Program details are hidden while
+   * this is not provided, e.g. during server rendering.
+   */
+  now?: Date | null;
+  /** IANA time zone programs and wake alarms are evaluated in; defaults to the browser's. */
+  timeZone?: string;
+  /**
+   * BCP 47 tag used for text, numbers and times (default `en`). Text comes from
+   * the bundled catalog of its language, or English if there is none.
+   */
+  locale?: string;
+  /** Clock used for times of day; defaults to the locale's convention. */
+  hourCycle?: HourCycle;
+  /** Replaces messages of the bundled catalog, e.g. to support another language. */
+  messages?: Partial<ZoneMessages>;
+  /** Additional styles for the root element. */
+  sx?: SxProps<Theme>;
+}
+
+/** Steps applied by PageUp and PageDown. */
+const PAGE_STEPS = 5;
+/** Vertical pixels of drag per target step. */
+const DRAG_PX_PER_STEP = 12;
+/** Vertical pixels a pointer must travel before a press becomes a drag. */
+const DRAG_THRESHOLD_PX = 6;
+/** How long a zone must be held to release the child lock. */
+const UNLOCK_HOLD_MS = 1500;
+
+const FAULT_ICONS: Record<ZoneFault, typeof CloudOffIcon> = {
+  offline: CloudOffIcon,
+  sensor_failure: SensorsOffIcon,
+  low_water: WaterDropIcon,
+};
+
+const visuallyHidden = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+} as const;
+
+/** Which edges of the bed a zone touches. */
+const edges = (slot: ZoneSlot, layout: BedLayout) => ({
+  left: slot.column === 0,
+  right: slot.column === layout.columns - 1,
+  top: slot.row === 0,
+  bottom: slot.row === layout.rows - 1,
+});
+
+/** CSS border radius from corner flags ordered top-left, top-right, bottom-right, bottom-left. */
+const radius = (corners: boolean[], round: number, square: number) =>
+  corners.map((c) => `${c ? round : square}px`).join(' ');
+
+export function BedZones({
+  layout,
+  zones: zoneStates,
+  editingZone = null,
+  onZoneClick,
+  onTargetChange,
+  step = 1,
+  min,
+  max,
+  locked = false,
+  onUnlock,
+  linked = false,
+  width = 360,
+  zoneNames,
+  unit = 'F',
+  comfortRange,
+  now = null,
+  timeZone,
+  locale = DEFAULT_LOCALE,
+  hourCycle,
+  messages,
+  sx,
+}: BedZonesProps) {
+  const theme = useTheme();
+  const text = { ...zoneMessages(locale), ...messages };
+  const format = React.useMemo(() => localeFormat(locale, hourCycle), [locale, hourCycle]);
+  const clock = React.useMemo(
+    () => localClock(timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone),
+    [timeZone],
+  );
+  const local = now && clock(now.getTime());
+  const zones = layout.zones
+    .filter((slot) => zoneStates[slot.id])
+    .map((slot) => ({
+      slot,
+      key: slot.id,
+      state: zoneStates[slot.id],
+      name: zoneNames?.[slot.id] ?? text.zoneNames[slot.id] ?? slot.defaultName,
+    }));
+  const zoneNoun = text.zoneNouns[layout.zoneNoun ?? 'zone'] ?? layout.zoneNoun ?? 'zone';
+  const compact = layout.rows > 1;
+
+  const zoneRefs = React.useRef<Record<string, HTMLButtonElement | null>>({});
+  const [drag, setDrag] = React.useState<{
+    id: string;
+    pointerId: number;
+    startY: number;
+    start: number;
+    value: number;
+    moved: boolean;
+  } | null>(null);
+  const suppressClick = React.useRef(false);
+  const [announcement, setAnnouncement] = React.useState('');
+  const unlockTimer = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [holding, setHolding] = React.useState(false);
+
+  const cancelUnlock = () => {
+    if (unlockTimer.current) clearTimeout(unlockTimer.current);
+    unlockTimer.current = null;
+    setHolding(false);
+  };
+  const startUnlock = () => {
+    if (!onUnlock || unlockTimer.current) return;
+    setHolding(true);
+    unlockTimer.current = setTimeout(() => {
+      unlockTimer.current = null;
+      setHolding(false);
+      setAnnouncement(text.unlocked);
+      onUnlock();
+    }, UNLOCK_HOLD_MS);
+  };
+  React.useEffect(
+    () => () => {
+      if (unlockTimer.current) clearTimeout(unlockTimer.current);
+    },
+    [],
+  );
+
+  const unlockHandlers = {
+    onPointerDown: (event: React.PointerEvent) => event.button === 0 && startUnlock(),
+    onPointerUp: cancelUnlock,
+    onPointerLeave: cancelUnlock,
+    onPointerCancel: cancelUnlock,
+    onKeyUp: cancelUnlock,
+  };
+
+  // Direct adjustment works in the display scale so steps land on round
+  // values: degrees of `unit`, or whole comfort levels.
+  const scale = comfortRange
+    ? {
+        step: 1,
+        lowest: -COMFORT_LEVELS,
+        highest: COMFORT_LEVELS,
+        to: (f: number) => tempToLevel(f, comfortRange),
+        from: (level: number) => levelToTemp(level, comfortRange),
+        format: (level: number) => text.level(formatLevel(level)),
+      }
+    : {
+        step,
+        lowest: min ?? toUnit(TEMP_RANGE_F.min, unit),
+        highest: max ?? toUnit(TEMP_RANGE_F.max, unit),
+        to: (f: number) => toUnit(f, unit),
+        from: (t: number) => fromUnit(t, unit),
+        format: (t: number) => format.degrees(t, unit),
+      };
+  const clampDisplay = (t: number) => Math.min(scale.highest, Math.max(scale.lowest, snap(t, scale.step)));
+  const displayTarget = (state: ZoneState) =>
+    clampDisplay(
+      state.targetTemp === undefined ? (scale.lowest + scale.highest) / 2 : scale.to(state.targetTemp),
+    );
+  const formatTarget = (f: number) =>
+    comfortRange ? scale.format(scale.to(f)) : format.temp(f, unit);
+
+  const commitTarget = (id: string, name: string, value: number) => {
+    onTargetChange?.(id, scale.from(value));
+    setAnnouncement(text.targetChanged(name, scale.format(value)));
+  };
+
+  const focusZone = (index: number) => {
+    const { key } = zones[(index + zones.length) % zones.length];
+    zoneRefs.current[key]?.focus();
+    if (!locked) onZoneClick?.(key);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const { key, state, name } = zones[index];
+    const adjustable = onTargetChange && !locked && !state.fault;
+    const adjust = (steps: number) => {
+      const current = displayTarget(state);
+      const next = clampDisplay(current + steps * scale.step);
+      if (next !== current) commitTarget(key, name, next);
+    };
+    switch (event.key) {
+      case 'ArrowRight':
+        focusZone(index + 1);
+        break;
+      case 'ArrowLeft':
+        focusZone(index - 1);
+        break;
+      case 'Home':
+        focusZone(0);
+        break;
+      case 'End':
+        focusZone(zones.length - 1);
+        break;
+      case 'ArrowUp':
+      case 'ArrowDown':
+      case 'PageUp':
+      case 'PageDown':
+        if (!adjustable) return;
+        adjust(
+          (event.key.startsWith('Page') ? PAGE_STEPS : 1) *
+            (event.key === 'ArrowUp' || event.key === 'PageUp' ? 1 : -1),
+        );
+        break;
+      case 'Enter':
+      case ' ':
+        if (!locked) return;
+        if (!event.repeat) startUnlock();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const dragHandlers = (key: string, state: ZoneState, name: string) =>
+    onTargetChange && !locked && !state.fault
+      ? {
+          onPointerDown: (event: React.PointerEvent) => {
+            if (event.button !== 0) return;
+            const start = displayTarget(state);
+            setDrag({
+              id: key,
+              pointerId: event.pointerId,
+              startY: event.clientY,
+              start,
+              value: start,
+              moved: false,
+            });
+          },
+          onPointerMove: (event: React.PointerEvent<HTMLElement>) => {
+            if (drag?.id !== key || drag.pointerId !== event.pointerId) return;
+            const dy = drag.startY - event.clientY;
+            if (!drag.moved && Math.abs(dy) < DRAG_THRESHOLD_PX) return;
+            if (!drag.moved) event.currentTarget.setPointerCapture(event.pointerId);
+            const value = clampDisplay(drag.start + Math.round(dy / DRAG_PX_PER_STEP) * scale.step);
+            setDrag({ ...drag, moved: true, value });
+          },
+          onPointerUp: () => {
+            if (drag?.id !== key) return;
+            if (drag.moved) {
+              suppressClick.current = true;
+              onZoneClick?.(key);
+              if (drag.value !== drag.start) commitTarget(key, name, drag.value);
+            }
+            setDrag(null);
+          },
+          onPointerCancel: () => setDrag(null),
+        }
+      : {};
+
+  const tabStop = zones.some((z) => z.key === editingZone) ? editingZone : zones[0]?.key;
+
+  // Colors come from CSS variables so the bed follows the color scheme.
+  const palette = (theme.vars ?? theme).palette;
+  const bed = zonePalette(theme);
+  const ring = palette.text.primary;
+  const editGlow = fade(palette.secondary.main, 0.28);
+
+  const baseZoneSx = {
+    position: 'relative',
+    border: '1px solid',
+    borderColor: 'divider',
+    display: 'inline-flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    transition:
+      'box-shadow .14s ease, transform .14s ease, opacity .14s ease, border-color .14s ease, background-color .14s ease',
+    height: '100%',
+    width: '100%',
+    boxShadow: 'inset 0 1px 2px rgba(0,0,0,0.12)',
+    transform: 'none',
+    '&:hover': { transform: 'translateY(-1px)' },
+    '&:active': { transform: 'translateY(0)' },
+  } as const;
+
+  const highlight = 'rgba(255,255,255,0.05)';
+  const shadow = 'rgba(0,0,0,0.1)';
+  const baseBackground = `linear-gradient(180deg, ${fade(bed.mattress, 0.9)}, ${fade(bed.frame, 0.9)})`;
+
+  const tintBackground = (color: string) => ({
+    background: `linear-gradient(180deg, ${highlight}, ${shadow}), ${fade(color, ZONE_TINT_ALPHA)}`,
+    borderColor: fade(color, 0.45),
+    '& .bdz-dot': { backgroundColor: color },
+  });
+
+  const modeStyles: Record<Mode, SxProps<Theme>> = {
+    cool: tintBackground(modeColor(theme, 'cool')),
+    heat: tintBackground(modeColor(theme, 'heat')),
+    off: {
+      background: baseBackground,
+      borderColor: 'divider',
+      '& .bdz-dot': { backgroundColor: modeColor(theme, 'off') },
+    },
+  };
+
+  const faultColor = palette.error.main;
+  const faultSx = {
+    background: `repeating-linear-gradient(135deg, ${fade(faultColor, 0.14)} 0 8px, transparent 8px 16px), ${baseBackground}`,
+    borderColor: fade(faultColor, 0.7),
+    borderStyle: 'dashed',
+    '& .bdz-dot': { backgroundColor: faultColor },
+  } as const;
+
+  const editingSx = {
+    boxShadow: `inset 0 0 0 2px ${ring}, inset 0 1px 2px rgba(0,0,0,0.12)`,
+    '&::after': {
+      content: '""',
+      position: 'absolute',
+      inset: 0,
+      borderRadius: 'inherit',
+      boxShadow: `0 0 6px ${editGlow}`,
+      pointerEvents: 'none',
+    },
+    zIndex: 2,
+  } as const;
+
+  const chipSx = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 0.5,
+    fontSize: { xs: 9, sm: 11 },
+    px: 1,
+    py: 0.25,
+    borderRadius: 8,
+    bgcolor: fade(palette.background.default, 0.9),
+    border: '1px solid',
+    borderColor: 'divider',
+    whiteSpace: 'nowrap',
+  } as const;
+
+  return (
+    <Box
+      role="radiogroup"
+      aria-label={text.bedZones(linked)}
+      aria-disabled={locked || undefined}
+      sx={{
+        width: '100%',
+        maxWidth: width,
+        mx: 'auto',
+        fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial',
+        ...sx,
+      }}
+    >
+      <Box
+        sx={{
+          position: 'relative',
+          borderRadius: '28px',
+          p: '6px',
+          border: '1px solid',
+          borderColor: 'divider',
+          background: `linear-gradient(180deg, ${fade(bed.frame, 0.6)}, ${fade(bed.mattress, 0.6)})`,
+          boxShadow: '0 4px 12px rgba(0,0,0,0.5)',
+          ...theme.applyStyles('light', { boxShadow: '0 4px 12px rgba(0,0,0,0.15)' }),
+          aspectRatio: '3 / 3.2',
+          overflow: 'hidden',
+        }}
+      >
+        <Box
+          sx={{
+            position: 'absolute',
+            inset: 6,
+            borderRadius: '20px',
+            overflow: 'hidden',
+            background: baseBackground,
+            border: '1px solid',
+            borderColor: 'divider',
+          }}
+        >
+          <Box
+            sx={{
+              position: 'relative',
+              display: 'grid',
+              gridTemplateColumns: `repeat(${layout.columns}, 1fr)`,
+              gridTemplateRows: `repeat(${layout.rows}, 1fr)`,
+              height: '100%',
+              zIndex: 1,
+            }}
+          >
+            {layout.columns > 1 && (
+              <Box
+                aria-hidden
+                sx={{
+                  position: 'absolute',
+                  top: 0,
+                  bottom: 0,
+                  left: '50%',
+                  width: linked ? '3px' : '1px',
+                  transform: linked ? 'translateX(-50%)' : undefined,
+                  bgcolor: linked ? fade(palette.secondary.main, 0.6) : 'divider',
+                  pointerEvents: 'none',
+                  zIndex: linked ? 3 : 1,
+                }}
+              />
+            )}
+            {layout.columns > 1 && linked && (
+              <Box
+                aria-hidden
+                sx={{
+                  position: 'absolute',
+                  top: '50%',
+                  left: '50%',
+                  transform: 'translate(-50%, -50%)',
+                  width: 28,
+                  height: 28,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  borderRadius: '50%',
+                  bgcolor: 'secondary.main',
+                  color: 'secondary.contrastText',
+                  boxShadow: '0 1px 4px rgba(0,0,0,0.4)',
+                  pointerEvents: 'none',
+                  zIndex: 3,
+                }}
+              >
+                <LinkIcon sx={{ fontSize: 18, transform: 'rotate(-45deg)' }} />
+              </Box>
+            )}
+            {layout.rows > 1 && (
+              <Box
+                aria-hidden
+                sx={{
+                  position: 'absolute',
+                  left: 0,
+                  right: 0,
+                  top: '50%',
+                  height: '1px',
+                  bgcolor: 'divider',
+                  pointerEvents: 'none',
+                  zIndex: 1,
+                }}
+              />
+            )}
+            {zones.map(({ slot, key, state, name }, index) => {
+              const isEditing = editingZone === key;
+              const preview = drag?.id === key && drag.moved ? drag.value : undefined;
+              const at = edges(slot, layout);
+              // The sleeper's head rests on the pillow; lower zones show only the body.
+              const sleeperTop = at.top ? (compact ? 18 : 9) : 0;
+              const program: ScheduleStatus = local ? evaluateSchedule(state.schedule?.program, local) : {};
+              const nextLabel = program.next
+                ? program.next.day === local?.day
+                  ? format.time(program.next.time)
+                  : text.dayAndTime(format.weekday(program.next.day), format.time(program.next.time))
+                : undefined;
+              const scheduleLabel = state.schedule?.running
+                ? program.active
+                  ? `${program.active.label ?? text.program} · ${format.temp(program.active.temp, unit)}`
+                  : text.scheduleRunning
+                : nextLabel
+                ? text.startsAt(nextLabel)
+                : state.schedule?.nextStart
+                ? text.startsAt(format.time(state.schedule.nextStart))
+                : undefined;
+              // A running sleep timer counts down; otherwise an enabled wake alarm shows its time.
+              const sleepMinutes =
+                now && state.schedule?.sleepTimer && state.schedule.sleepTimer.endsAt > now.getTime()
+                  ? Math.ceil((state.schedule.sleepTimer.endsAt - now.getTime()) / 60_000)
+                  : undefined;
+              const wake = state.schedule?.wake;
+              const waking = local ? wakeProgress(wake, local) : undefined;
+              const wakeTime = wake && format.time(wake.time);
+              const timerLabel =
+                sleepMinutes !== undefined
+                  ? text.offIn(format.number(sleepMinutes))
+                  : wake?.enabled && wakeTime
+                  ? waking !== undefined && waking < 1
+                    ? text.waking(wakeTime)
+                    : wakeTime
+                  : undefined;
+              const FaultIcon = state.fault && FAULT_ICONS[state.fault];
+              const fault = state.fault && text.faults[state.fault];
+              const ariaLabel = [
+                text.zoneLabel(name, zoneNoun, text.modes[state.mode]),
+                fault && `${fault.label}. ${fault.description}`,
+                isEditing && text.editing,
+                state.occupied !== undefined && (state.occupied ? text.occupied : text.empty),
+                state.intervention && text.safetyRules[state.intervention.rule].description,
+                sleepMinutes !== undefined && text.turnsOffIn(format.number(sleepMinutes)),
+                sleepMinutes === undefined && wake?.enabled && wakeTime && text.wakeAlarmAt(wakeTime),
+              ]
+                .filter(Boolean)
+                .join(', ');
+              const nextSetpointLabel =
+                state.schedule?.running && program.next && nextLabel
+                  ? text.next(nextLabel, format.temp(program.next.temp, unit))
+                  : undefined;
+              return (
+                <ButtonBase
+                  key={key}
+                  ref={(el: HTMLButtonElement | null) => {
+                    zoneRefs.current[key] = el;
+                  }}
+                  role="radio"
+                  aria-checked={isEditing}
+                  tabIndex={key === tabStop ? 0 : -1}
+                  onClick={() => {
+                    if (suppressClick.current) {
+                      suppressClick.current = false;
+                      return;
+                    }
+                    if (!locked) onZoneClick?.(key);
+                  }}
+                  onKeyDown={(event) => handleKeyDown(event, index)}
+                  {...(locked ? unlockHandlers : dragHandlers(key, state, name))}
+                  aria-label={ariaLabel}
+                  // The fault tooltip takes over from the native one.
+                  title={state.fault ? undefined : ariaLabel}
+                  sx={{
+                    touchAction: onTargetChange && !locked && !state.fault ? 'pan-x' : undefined,
+                    ...baseZoneSx,
+                    gridColumn: slot.column + 1,
+                    gridRow: slot.row + 1,
+                    borderRadius: radius(
+                      [at.top && at.left, at.top && at.right, at.bottom && at.right, at.bottom && at.left],
+                      16,
+                      0,
+                    ),
+                    ...modeStyles[state.mode],
+                    ...(state.fault ? faultSx : {}),
+                    ...(isEditing ? editingSx : {}),
+                    opacity: editingZone && !isEditing ? 0.6 : 1,
+                  }}
+                >
+              {/* Pillow, only on zones at the head of the bed */}
+              {at.top && (
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    top: 8,
+                    left: at.left ? 8 : 2,
+                    right: at.right ? 8 : 2,
+                    height: compact ? '30%' : '15%',
+                    borderRadius: radius([at.left, at.right, false, false], 16, 8),
+                    background: `linear-gradient(180deg, ${fade(bed.pillow, 0.95)}, ${fade(bed.mattress, 0.9)})`,
+                    border: '1px solid',
+                    borderColor: 'divider',
+                    boxShadow: '0 2px 4px rgba(0,0,0,0.4)',
+                    pointerEvents: 'none',
+                    // An empty side's pillow fades back.
+                    opacity: state.occupied === false ? 0.4 : 1,
+                    transition: 'opacity .3s ease',
+                  }}
+                />
+              )}
+              {/* Sleeper, while the controller senses someone on the zone */}
+              {state.occupied && (
+                <Box
+                  component="svg"
+                  aria-hidden
+                  viewBox="0 0 40 100"
+                  preserveAspectRatio={at.top ? 'xMidYMin meet' : 'none'}
+                  sx={{
+                    position: 'absolute',
+                    top: `${sleeperTop}%`,
+                    height: `${100 - sleeperTop - (at.bottom ? 6 : 0)}%`,
+                    left: '50%',
+                    width: '34%',
+                    transform: 'translateX(-50%)',
+                    pointerEvents: 'none',
+                  }}
+                >
+                  <g style={{ fill: fade(palette.text.primary, 0.12) }}>
+                    {at.top && <circle cx="20" cy="11" r="9" />}
+                    <rect x="6" y={at.top ? 23 : 0} width="28" height={at.top ? 77 : 100} rx="12" />
+                  </g>
+                </Box>
+              )}
+              {/* Zone label */}
+              <Typography
+                component="span"
+                sx={{
+                  position: 'absolute',
+                  top: 8,
+                  left: 10,
+                  fontSize: { xs: 10, sm: 11 },
+                  lineHeight: 1,
+                  px: 1,
+                  py: 0.5,
+                  borderRadius: 999,
+                  bgcolor: fade(palette.background.default, 0.9),
+                  border: '1px solid',
+                  borderColor: 'divider',
+                  backdropFilter: 'blur(2px)',
+                  userSelect: 'none',
+                }}
+              >
+                {name}
+              </Typography>
+
+              {/* Temperature display */}
+              <Typography
+                component="span"
+                sx={{ fontSize: compact ? { xs: 20, sm: 24 } : { xs: 24, sm: 32 }, fontWeight: 600 }}
+              >
+                {hidesReading(state.fault) ? `--°${unit}` : format.temp(state.currentTemp, unit)}
+              </Typography>
+
+              {fault && FaultIcon ? (
+                <Tooltip title={fault.description} arrow describeChild>
+                  <Box
+                    component="span"
+                    sx={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 0.5,
+                      mt: 0.5,
+                      fontSize: 12,
+                      fontWeight: 600,
+                      px: 1,
+                      py: 0.25,
+                      borderRadius: 999,
+                      bgcolor: 'error.main',
+                      color: 'error.contrastText',
+                      whiteSpace: 'nowrap',
+                      userSelect: 'none',
+                    }}
+                  >
+                    <FaultIcon sx={{ fontSize: 'inherit' }} />
+                    {fault.label}
+                  </Box>
+                </Tooltip>
+              ) : preview !== undefined ? (
+                <Typography
+                  component="span"
+                  sx={{ fontSize: 12, mt: 0.5, fontWeight: 600, userSelect: 'none' }}
+                >
+                  {text.setTo(scale.format(preview))}
+                </Typography>
+              ) : state.mode === 'off' && state.presencePause ? (
+                <Typography
+                  component="span"
+                  sx={{ fontSize: 12, mt: 0.5, color: 'text.secondary', userSelect: 'none' }}
+                >
+                  {text.offWhileEmpty}
+                </Typography>
+              ) : state.mode !== 'off' && state.targetTemp !== undefined && (
+                <Typography
+                  component="span"
+                  sx={{ fontSize: 12, mt: 0.5, color: 'text.secondary', userSelect: 'none' }}
+                >
+                  {state.currentTemp === state.targetTemp
+                    ? text.maintaining(formatTarget(state.targetTemp))
+                    : state.mode === 'cool'
+                    ? text.coolingTo(formatTarget(state.targetTemp))
+                    : text.heatingTo(formatTarget(state.targetTemp))}
+                </Typography>
+              )}
+
+              {(scheduleLabel || timerLabel) && (
+                <Box
+                  component="span"
+                  sx={{
+                    position: 'absolute',
+                    bottom: 8,
+                    left: '50%',
+                    transform: 'translateX(-50%)',
+                    display: 'flex',
+                    gap: 0.5,
+                  }}
+                >
+                  {scheduleLabel && (
+                    <Box component="span" sx={chipSx}>
+                      <AccessTimeIcon sx={{ fontSize: 'inherit' }} />
+                      {scheduleLabel}
+                    </Box>
+                  )}
+                  {timerLabel && (
+                    <Box component="span" sx={chipSx}>
+                      {sleepMinutes !== undefined ? (
+                        <BedtimeIcon sx={{ fontSize: 'inherit' }} />
+                      ) : (
+                        <AlarmIcon sx={{ fontSize: 'inherit' }} />
+                      )}
+                      {timerLabel}
+                    </Box>
+                  )}
+                </Box>
+              )}
+
+              {nextSetpointLabel && (
+                <Typography
+                  component="span"
+                  sx={{
+                    position: 'absolute',
+                    bottom: { xs: 28, sm: 32 },
+                    left: 0,
+                    right: 0,
+                    fontSize: { xs: 9, sm: 10 },
+                    color: 'text.secondary',
+                    textAlign: 'center',
+                    whiteSpace: 'nowrap',
+                    userSelect: 'none',
+                  }}
+                >
+                  {nextSetpointLabel}
+                </Typography>
+              )}
+
+              {state.intervention && (
+                <Box
+                  component="span"
+                  sx={{
+                    position: 'absolute',
+                    top: { xs: 26, sm: 30 },
+                    left: 10,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 0.25,
+                    fontSize: { xs: 9, sm: 10 },
+                    fontWeight: 600,
+                    px: 0.75,
+                    py: 0.25,
+                    borderRadius: 999,
+                    bgcolor: 'warning.main',
+                    color: 'warning.contrastText',
+                    whiteSpace: 'nowrap',
+                    userSelect: 'none',
+                  }}
+                >
+                  <GppMaybeIcon sx={{ fontSize: 'inherit' }} />
+                  {text.safetyRules[state.intervention.rule].label}
+                </Box>
+              )}
+
+              {/* Colored dot */}
+              <Box
+                className="bdz-dot"
+                aria-hidden
+                sx={{
+                  position: 'absolute',
+                  width: 8,
+                  height: 8,
+                  borderRadius: '50%',
+                  top: 12,
+                  right: 10,
+                  bgcolor: bed.off,
+                  border: '1px solid rgba(0,0,0,0.08)',
+                }}
+              />
+            </ButtonBase>
+          );
+        })}
+          </Box>
+        </Box>
+      </Box>
+      {locked && (
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 0.5, mt: 1 }}
+        >
+          <LockIcon sx={{ fontSize: 'inherit' }} />
+          {holding ? text.keepHoldingToUnlock : text.childLockOn}
+        </Typography>
+      )}
+      <Box component="span" aria-live="polite" sx={visuallyHidden}>
+        {announcement}
+      </Box>
+    </Box>
+  );
+}
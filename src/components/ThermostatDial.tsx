@@ -0,0 +1,257 @@
+'use client';
+
+import * as React from 'react';
+import { Box } from '@mui/material';
+import { useTheme, SxProps, Theme } from '@mui/material/styles';
+import { COMFORT_LEVELS, ComfortRange, formatLevel, levelToTemp, tempToLevel } from '@/lib/comfort';
+import { DEFAULT_LOCALE, localeFormat } from '@/lib/i18n';
+import { zoneMessages } from '@/lib/messages';
+import { displayTemp, fromUnit, snap, TempUnit, toUnit } from '@/lib/temperature';
+import type { Mode } from '@/lib/zone';
+import { fade, modeColor } from './zoneColors';
+
+/**
+ * Round thermostat control. The arc between the current and target
+ * temperature is drawn in the heat or cool color of `mode`; the target is set
+ * by dragging or tapping the ring, or with the keyboard on the focused thumb.
+ */
+export interface ThermostatDialProps {
+  /** Current sensed temperature in Fahrenheit. */
+  currentTemp: number;
+  /** Target temperature in Fahrenheit; the middle of the range when unset. */
+  targetTemp?: number;
+  /** Mode of the zone, which picks the arc color. */
+  mode: Mode;
+  /** Callback fired with the new target in Fahrenheit once the user lets go. */
+  onChange: (targetTemp: number) => void;
+  /** Temperature unit used for display and for `step`, `min` and `max`. */
+  unit?: TempUnit;
+  /** Target increment, in `unit` (default 1). */
+  step?: number;
+  /** Lowest selectable target, in `unit`. */
+  min: number;
+  /** Highest selectable target, in `unit`. */
+  max: number;
+  /**
+   * Shows the target as a comfort level from −10 to +10 mapped onto this
+   * range, adjusted one level at a time; `step`, `min` and `max` are ignored.
+   */
+  comfortRange?: ComfortRange;
+  /** Accessible name of the slider (default "Target temperature" in the catalog's language). */
+  label?: string;
+  /** Shows the dial dimmed and ignores input, e.g. while the bed is locked. */
+  disabled?: boolean;
+  /** BCP 47 tag used for text and numbers (default `en`), as in `BedZones`. */
+  locale?: string;
+  /** Rendered diameter in pixels (default 220). */
+  size?: number;
+  /** Additional styles for the root element. */
+  sx?: SxProps<Theme>;
+}
+
+/** Dial geometry, in viewBox units; angles are degrees clockwise from east. */
+const VIEW = 200;
+const CENTER = VIEW / 2;
+const RADIUS = 80;
+const START_ANGLE = 135;
+const SWEEP = 270;
+const PAGE_STEPS = 5;
+
+const point = (fraction: number, r = RADIUS) => {
+  const rad = ((START_ANGLE + fraction * SWEEP) * Math.PI) / 180;
+  return { x: CENTER + r * Math.cos(rad), y: CENTER + r * Math.sin(rad) };
+};
+
+const arc = (from: number, to: number) => {
+  const [a, b] = from <= to ? [from, to] : [to, from];
+  const start = point(a);
+  const end = point(b);
+  const large = (b - a) * SWEEP > 180 ? 1 : 0;
+  return `M${start.x},${start.y} A${RADIUS},${RADIUS} 0 ${large} 1 ${end.x},${end.y}`;
+};
+
+export function ThermostatDial({
+  currentTemp,
+  targetTemp,
+  mode,
+  onChange,
+  unit = 'F',
+  step = 1,
+  min,
+  max,
+  comfortRange,
+  label,
+  disabled = false,
+  locale = DEFAULT_LOCALE,
+  size = 220,
+  sx,
+}: ThermostatDialProps) {
+  const theme = useTheme();
+  const svgRef = React.useRef<SVGSVGElement>(null);
+  const [preview, setPreview] = React.useState<number | null>(null);
+  const text = zoneMessages(locale);
+  const format = React.useMemo(() => localeFormat(locale), [locale]);
+
+  // The dial moves in the display scale: degrees of `unit` or comfort levels.
+  const scale = comfortRange
+    ? {
+        step: 1,
+        lowest: -COMFORT_LEVELS,
+        highest: COMFORT_LEVELS,
+        to: (f: number) => tempToLevel(f, comfortRange),
+        from: (level: number) => levelToTemp(level, comfortRange),
+        format: formatLevel,
+      }
+    : {
+        step,
+        lowest: min,
+        highest: max,
+        to: (f: number) => toUnit(f, unit),
+        from: (t: number) => fromUnit(t, unit),
+        format: (t: number) => format.degrees(t, unit),
+      };
+  const clamp = (t: number) => Math.min(scale.highest, Math.max(scale.lowest, snap(t, scale.step)));
+
+  const target = preview ?? clamp(
+    targetTemp === undefined ? (scale.lowest + scale.highest) / 2 : scale.to(targetTemp),
+  );
+  const current = displayTemp(currentTemp, unit);
+  const fraction = (t: number) =>
+    Math.min(1, Math.max(0, (t - scale.lowest) / (scale.highest - scale.lowest || 1)));
+  const color = modeColor(theme, mode);
+  // CSS variables only work in style properties, not in SVG attributes.
+  const palette = (theme.vars ?? theme).palette;
+
+  const commit = (value: number) => {
+    setPreview(null);
+    if (targetTemp === undefined || value !== clamp(scale.to(targetTemp))) {
+      onChange(scale.from(value));
+    }
+  };
+
+  /** Value under a pointer; the gap at the bottom snaps to the nearer end. */
+  const valueAt = (event: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * VIEW - CENTER;
+    const y = ((event.clientY - rect.top) / rect.height) * VIEW - CENTER;
+    const angle = (((Math.atan2(y, x) * 180) / Math.PI - START_ANGLE) % 360 + 360) % 360;
+    const swept = angle <= SWEEP ? angle : angle - SWEEP < (360 - SWEEP) / 2 ? SWEEP : 0;
+    return clamp(scale.lowest + (swept / SWEEP) * (scale.highest - scale.lowest));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const steps: Record<string, number> = {
+      ArrowUp: 1,
+      ArrowRight: 1,
+      ArrowDown: -1,
+      ArrowLeft: -1,
+      PageUp: PAGE_STEPS,
+      PageDown: -PAGE_STEPS,
+    };
+    if (event.key === 'Home') commit(scale.lowest);
+    else if (event.key === 'End') commit(scale.highest);
+    else if (event.key in steps) commit(clamp(target + steps[event.key] * scale.step));
+    else return;
+    event.preventDefault();
+  };
+
+  const thumb = point(fraction(target));
+  const marker = point(fraction(scale.to(currentTemp)), RADIUS - 14);
+  const status =
+    text.dialStatus[
+      mode === 'off'
+        ? 'off'
+        : clamp(scale.to(currentTemp)) === target
+        ? 'maintaining'
+        : mode === 'heat'
+        ? 'heating'
+        : 'cooling'
+    ];
+
+  return (
+    <Box
+      sx={{
+        width: size,
+        maxWidth: '100%',
+        mx: 'auto',
+        touchAction: disabled ? undefined : 'none',
+        opacity: disabled ? 0.5 : 1,
+        '& .dial-thumb': { outline: 'none', fill: palette.background.paper, stroke: color },
+        '& .dial-thumb:focus-visible': { stroke: palette.secondary.main, strokeWidth: 5 },
+        ...sx,
+      }}
+    >
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW} ${VIEW}`}
+        width="100%"
+        style={{ display: 'block', cursor: disabled ? 'default' : 'pointer', userSelect: 'none' }}
+        onPointerDown={(event) => {
+          if (disabled) return;
+          event.currentTarget.setPointerCapture(event.pointerId);
+          setPreview(valueAt(event));
+        }}
+        onPointerMove={(event) => preview !== null && setPreview(valueAt(event))}
+        onPointerUp={() => preview !== null && commit(preview)}
+        onPointerCancel={() => setPreview(null)}
+      >
+        <path
+          d={arc(0, 1)}
+          fill="none"
+          style={{ stroke: fade(palette.text.primary, 0.12) }}
+          strokeWidth={14}
+          strokeLinecap="round"
+        />
+        <path
+          d={arc(fraction(scale.to(currentTemp)), fraction(target))}
+          fill="none"
+          style={{ stroke: color }}
+          strokeOpacity={mode === 'off' ? 0.5 : 1}
+          strokeWidth={14}
+          strokeLinecap="round"
+        />
+        <circle cx={marker.x} cy={marker.y} r={3} style={{ fill: palette.text.secondary }} />
+        <text
+          x={CENTER}
+          y={CENTER - 22}
+          textAnchor="middle"
+          style={{ fontSize: 12, fill: palette.text.secondary }}
+        >
+          {status}
+        </text>
+        <text
+          x={CENTER}
+          y={CENTER + 12}
+          textAnchor="middle"
+          style={{ fontSize: 40, fontWeight: 600, fill: palette.text.primary }}
+        >
+          {scale.format(target)}
+        </text>
+        <text
+          x={CENTER}
+          y={CENTER + 36}
+          textAnchor="middle"
+          style={{ fontSize: 12, fill: palette.text.secondary }}
+        >
+          {text.sensed(format.degrees(current, unit))}
+        </text>
+        <circle
+          role="slider"
+          tabIndex={disabled ? -1 : 0}
+          aria-label={label ?? text.targetTemperature}
+          aria-disabled={disabled || undefined}
+          aria-valuemin={scale.lowest}
+          aria-valuemax={scale.highest}
+          aria-valuenow={target}
+          aria-valuetext={comfortRange ? text.level(formatLevel(target)) : scale.format(target)}
+          onKeyDown={disabled ? undefined : handleKeyDown}
+          cx={thumb.x}
+          cy={thumb.y}
+          r={11}
+          strokeWidth={3}
+          className="dial-thumb"
+        />
+      </svg>
+    </Box>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import * as React from 'react';
+import { Box, Typography } from '@mui/material';
+import { useTheme, SxProps, Theme } from '@mui/material/styles';
+import type { HistorySample } from '@/lib/history';
+import { DEFAULT_LOCALE, HourCycle, localeFormat } from '@/lib/i18n';
+import { zoneMessages } from '@/lib/messages';
+import { TempUnit, toUnit } from '@/lib/temperature';
+import type { Weekday } from '@/lib/schedule';
+import type { Mode } from '@/lib/zone';
+import { fade, modeColor, ZONE_TINT_ALPHA } from './zoneColors';
+
+/**
+ * Line chart of one zone's recorded temperatures. The sensed temperature is
+ * drawn solid and the target dashed; heating and cooling periods are shaded
+ * with the same tints the bed uses for its zones.
+ */
+export interface ZoneHistoryChartProps {
+  /** Samples ordered by time, in Fahrenheit. */
+  samples: HistorySample[];
+  /** Start of the charted window in epoch milliseconds. */
+  from: number;
+  /** End of the charted window in epoch milliseconds. */
+  to: number;
+  /** Name of the zone, used in the accessible label. */
+  name: string;
+  /** Temperature unit used for the axis. */
+  unit?: TempUnit;
+  /** BCP 47 tag used for text, numbers and times (default `en`), as in `BedZones`. */
+  locale?: string;
+  /** Clock used for times of day; defaults to the locale's convention. */
+  hourCycle?: HourCycle;
+  /** Height of the chart in pixels (default 140). */
+  height?: number;
+  /** Additional styles for the root element. */
+  sx?: SxProps<Theme>;
+}
+
+const WIDTH = 320;
+const PAD = { top: 8, right: 8, bottom: 18, left: 30 };
+
+export function ZoneHistoryChart({
+  samples,
+  from,
+  to,
+  name,
+  unit = 'F',
+  locale = DEFAULT_LOCALE,
+  hourCycle,
+  height = 140,
+  sx,
+}: ZoneHistoryChartProps) {
+  const theme = useTheme();
+  const text = zoneMessages(locale);
+  const format = React.useMemo(() => localeFormat(locale, hourCycle), [locale, hourCycle]);
+  const convert = (t: number) => toUnit(t, unit);
+
+  const temps = samples.flatMap((s) =>
+    s.mode !== 'off' && s.targetTemp !== undefined
+      ? [convert(s.currentTemp), convert(s.targetTemp)]
+      : [convert(s.currentTemp)],
+  );
+  const lo = Math.floor(Math.min(...temps) - 1);
+  const hi = Math.ceil(Math.max(...temps) + 1);
+
+  const x = (t: number) => PAD.left + ((t - from) / (to - from || 1)) * (WIDTH - PAD.left - PAD.right);
+  const y = (temp: number) =>
+    PAD.top + ((hi - convert(temp)) / (hi - lo || 1)) * (height - PAD.top - PAD.bottom);
+
+  // Each sample holds until the next one, so periods end where the next begins.
+  const periods: { mode: Mode; start: number; end: number }[] = [];
+  samples.forEach((s, i) => {
+    const end = samples[i + 1]?.t ?? to;
+    const last = periods[periods.length - 1];
+    if (last?.mode === s.mode) last.end = end;
+    else periods.push({ mode: s.mode, start: Math.max(s.t, from), end });
+  });
+
+  const currentPath = samples
+    .map((s, i) => `${i === 0 ? 'M' : 'L'}${x(s.t).toFixed(1)},${y(s.currentTemp).toFixed(1)}`)
+    .join(' ');
+  // The target only exists while the zone is on, so its line breaks when off.
+  const targetPath = samples
+    .map((s, i) => {
+      if (s.mode === 'off' || s.targetTemp === undefined) return '';
+      const prev = samples[i - 1];
+      const continues = prev && prev.mode !== 'off' && prev.targetTemp !== undefined;
+      const end = samples[i + 1]?.t ?? to;
+      return `${continues ? 'L' : 'M'}${x(s.t).toFixed(1)},${y(s.targetTemp).toFixed(1)} H${x(end).toFixed(1)}`;
+    })
+    .join(' ');
+
+  const spansDays = to - from > 24 * 60 * 60 * 1000;
+  const timeLabel = (t: number) => (spansDays ? format.weekday(new Date(t).getDay() as Weekday) : format.clock(t));
+
+  // CSS variables only work in style properties, not in SVG attributes.
+  const palette = (theme.vars ?? theme).palette;
+  const axisText = { fontSize: 9, fill: palette.text.secondary } as const;
+
+  return (
+    <Box sx={{ width: '100%', ...sx }}>
+      <Typography variant="subtitle2" sx={{ mb: 0.5 }}>
+        {name}
+      </Typography>
+      {samples.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+          {text.noReadings}
+        </Typography>
+      ) : (
+        <svg
+          role="img"
+          aria-label={text.temperatureHistory(name)}
+          viewBox={`0 0 ${WIDTH} ${height}`}
+          width="100%"
+          style={{ display: 'block' }}
+        >
+          {periods
+            .filter((p) => p.mode !== 'off')
+            .map((p) => (
+              <rect
+                key={p.start}
+                x={x(p.start)}
+                y={PAD.top}
+                width={Math.max(0, x(p.end) - x(p.start))}
+                height={height - PAD.top - PAD.bottom}
+                style={{ fill: fade(modeColor(theme, p.mode), ZONE_TINT_ALPHA) }}
+              />
+            ))}
+          <line
+            x1={PAD.left}
+            x2={WIDTH - PAD.right}
+            y1={height - PAD.bottom}
+            y2={height - PAD.bottom}
+            style={{ stroke: palette.divider }}
+          />
+          <text x={PAD.left - 4} y={PAD.top + 8} textAnchor="end" style={axisText}>
+            {format.number(hi)}°
+          </text>
+          <text x={PAD.left - 4} y={height - PAD.bottom} textAnchor="end" style={axisText}>
+            {format.number(lo)}°
+          </text>
+          <text x={PAD.left} y={height - 4} style={axisText}>
+            {timeLabel(from)}
+          </text>
+          <text x={WIDTH - PAD.right} y={height - 4} textAnchor="end" style={axisText}>
+            {timeLabel(to)}
+          </text>
+          <path
+            d={targetPath}
+            fill="none"
+            style={{ stroke: palette.text.secondary }}
+            strokeWidth={1.25}
+            strokeDasharray="4 3"
+          />
+          <path d={currentPath} fill="none" style={{ stroke: palette.text.primary }} strokeWidth={1.75} />
+        </svg>
+      )}
+      {samples.length > 0 && (
+        <Typography variant="caption" color="text.secondary">
+          {text.chartLegend}
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,62 @@
+import type { Theme } from '@mui/material/styles';
+import type { Mode } from '@/lib/zone';
+
+/**
+ * Colors of the bed, set per color scheme through `palette.bedZones`. Apps
+ * rebrand the zones by overriding these in their theme; anything left out
+ * falls back to the standard palette.
+ */
+export interface BedZonesPalette {
+  /** Accent and tint of heating zones. */
+  heat: string;
+  /** Accent and tint of cooling zones. */
+  cool: string;
+  /** Accent of zones that are off. */
+  off: string;
+  /** Top of the mattress. */
+  mattress: string;
+  /** Bed frame, also used to shade the mattress toward the foot. */
+  frame: string;
+  /** Pillows at the head of the bed. */
+  pillow: string;
+}
+
+declare module '@mui/material/styles' {
+  interface Palette {
+    bedZones?: Partial<BedZonesPalette>;
+  }
+  interface PaletteOptions {
+    bedZones?: Partial<BedZonesPalette>;
+  }
+}
+
+/** Opacity of the heat or cool tint laid over a zone. */
+export const ZONE_TINT_ALPHA = 0.18;
+
+/**
+ * The bed's colors for the current color scheme. With CSS theme variables
+ * these are `var()` references, so they follow light and dark mode without
+ * re-rendering.
+ */
+export function zonePalette(theme: Theme): BedZonesPalette {
+  const palette = (theme.vars ?? theme).palette;
+  return {
+    heat: palette.error.main,
+    cool: palette.info.main,
+    off: palette.grey[400],
+    mattress: palette.grey[800],
+    frame: palette.grey[700],
+    pillow: palette.background.paper,
+    ...palette.bedZones,
+  };
+}
+
+/** Accent color for a zone mode: red for heat, blue for cool, gray for off by default. */
+export const modeColor = (theme: Theme, mode: Mode) => zonePalette(theme)[mode];
+
+/**
+ * `color` at `opacity`. Unlike `alpha` it also accepts CSS variables, which
+ * the theme hands out for every palette color.
+ */
+export const fade = (color: string, opacity: number) =>
+  `color-mix(in srgb, ${color} ${Math.round(opacity * 100)}%, transparent)`;
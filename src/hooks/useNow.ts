@@ -0,0 +1,19 @@
+'use client';
+
+import * as React from 'react';
+
+/**
+ * Current time, refreshed every `intervalMs`. Returns `null` until the
+ * component has mounted so server and client render the same markup.
+ */
+export function useNow(intervalMs = 30_000) {
+  const [now, setNow] = React.useState<Date | null>(null);
+
+  React.useEffect(() => {
+    setNow(new Date());
+    const id = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import * as React from 'react';
+import {
+  BedPreferences,
+  bedPreferences,
+  DEFAULT_PREFERENCES,
+  Preferences,
+  preferencesCookie,
+} from '@/lib/preferences';
+
+/** Preferences shared by all beds. */
+type GlobalPreferences = Pick<Preferences, 'locale' | 'hourCycle' | 'lastVisit'>;
+
+interface PreferencesContextValue {
+  preferences: Preferences;
+  /** Changes preferences shared by all beds and stores the result. */
+  updatePreferences: (patch: Partial<GlobalPreferences>) => void;
+  /** Changes some preferences of a bed and stores the result. */
+  updateBedPreferences: (bedId: string, patch: Partial<BedPreferences>) => void;
+}
+
+const PreferencesContext = React.createContext<PreferencesContextValue>({
+  preferences: DEFAULT_PREFERENCES,
+  updatePreferences: () => {},
+  updateBedPreferences: () => {},
+});
+
+/**
+ * Holds the user's preferences, starting from those the server read from the
+ * request cookie so the first client render matches the server's markup.
+ * Changes are written back to the cookie.
+ */
+export function PreferencesProvider({
+  initialPreferences,
+  children,
+}: {
+  initialPreferences: Preferences;
+  children: React.ReactNode;
+}) {
+  const [preferences, setPreferences] = React.useState(initialPreferences);
+
+  React.useEffect(() => {
+    document.cookie = preferencesCookie(preferences);
+  }, [preferences]);
+
+  // The server sets `lang` from the cookie; keep it current after a change.
+  React.useEffect(() => {
+    document.documentElement.lang = preferences.locale;
+  }, [preferences.locale]);
+
+  const updatePreferences = React.useCallback(
+    (patch: Partial<GlobalPreferences>) => setPreferences((p) => ({ ...p, ...patch })),
+    [],
+  );
+
+  const updateBedPreferences = React.useCallback(
+    (bedId: string, patch: Partial<BedPreferences>) =>
+      setPreferences((p) => ({
+        ...p,
+        beds: { ...p.beds, [bedId]: { ...bedPreferences(p, bedId), ...patch } },
+      })),
+    [],
+  );
+
+  const value = React.useMemo(
+    () => ({ preferences, updatePreferences, updateBedPreferences }),
+    [preferences, updatePreferences, updateBedPreferences],
+  );
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>;
+}
+
+/** The stored preferences and a function that changes them. */
+export const usePreferences = () => React.useContext(PreferencesContext);
+
+/** The stored preferences of one bed and a function that changes them. */
+export function useBedPreferences(bedId: string) {
+  const { preferences, updateBedPreferences } = usePreferences();
+  const update = React.useCallback(
+    (patch: Partial<BedPreferences>) => updateBedPreferences(bedId, patch),
+    [bedId, updateBedPreferences],
+  );
+  return [bedPreferences(preferences, bedId), update] as const;
+}
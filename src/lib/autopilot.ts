@@ -0,0 +1,207 @@
+import { evaluateScheduleAt, LocalTime, timeToMinutes, Weekday, WeeklyProgram, WEEKDAYS } from './schedule';
+
+/**
+ * How a side's autopilot treats imported sleep data. `suggest` proposes
+ * setpoint changes for the user to accept or reject; `auto` applies them right
+ * away, and they can still be rejected to undo them. While `off`, data is
+ * kept but nothing is proposed.
+ */
+export type AutopilotMode = 'off' | 'suggest' | 'auto';
+
+export const AUTOPILOT_MODES: readonly AutopilotMode[] = ['off', 'suggest', 'auto'];
+
+export type SleepStage = 'awake' | 'light' | 'deep' | 'rem';
+
+export const SLEEP_STAGES: readonly SleepStage[] = ['awake', 'light', 'deep', 'rem'];
+
+/** One reading from a wearable's sleep export. */
+export interface SleepEpoch {
+  /** Start, in milliseconds since the epoch. */
+  t: number;
+  /** Length of the reading; when absent it lasts until the next one. */
+  seconds?: number;
+  stage?: SleepStage;
+  /** Beats per minute. */
+  heartRate?: number;
+}
+
+/**
+ * What a recommendation optimizes: the share of time spent in deep sleep when
+ * the data has sleep stages, otherwise the average heart rate.
+ */
+export type SleepMetric = 'deep' | 'heartRate';
+
+/** Sleep measured around one temperature. */
+export interface TempEvidence {
+  /** Middle of the temperature band, in Fahrenheit. */
+  temp: number;
+  minutes: number;
+  /** Share of deep sleep from 0 to 1, or the average heart rate. */
+  value: number;
+}
+
+export type RecommendationStatus = 'proposed' | 'applied' | 'accepted' | 'rejected';
+
+/**
+ * A proposed change to the setpoints at `time` on `days`, from `from` to `to`
+ * (Fahrenheit), with the evidence behind it. `applied` changes were made by
+ * the autopilot and await the user's verdict like `proposed` ones.
+ */
+export interface Recommendation {
+  id: string;
+  time: string;
+  days: Weekday[];
+  from: number;
+  to: number;
+  metric: SleepMetric;
+  /** Nights the evidence was gathered over. */
+  nights: number;
+  /** Sleep around the present setpoint. */
+  current: TempEvidence;
+  /** Sleep around the best temperature seen. */
+  best: TempEvidence;
+  status: RecommendationStatus;
+  /** When it was made, in milliseconds since the epoch. */
+  at: number;
+}
+
+/** The autopilot of one side. */
+export interface AutopilotState {
+  mode: AutopilotMode;
+  /** Nights of sleep data kept for the side. */
+  nights: number;
+  /** Newest first. */
+  recommendations: Recommendation[];
+}
+
+export const DEFAULT_AUTOPILOT: AutopilotState = { mode: 'off', nights: 0, recommendations: [] };
+
+/** Sleep data kept per side, in nights. */
+export const SLEEP_RETENTION_NIGHTS = 30;
+
+/** Most readings accepted in one import. */
+export const MAX_SLEEP_EPOCHS = 50_000;
+
+/** Recommendations kept per side. */
+export const MAX_RECOMMENDATIONS = 20;
+
+/** Width of the temperature bands sleep is compared across, in Fahrenheit. */
+const BAND_F = 2;
+/** Sleep needed in a band before it counts as evidence. */
+const MIN_BAND_MINUTES = 30;
+/** Largest change made to a setpoint per import, so targets move night by night. */
+const MAX_STEP_F = 2;
+/** Smallest improvement worth a change: 3 points of deep sleep or 1 bpm. */
+const MIN_GAIN: Record<SleepMetric, number> = { deep: 0.03, heartRate: 1 };
+/** Longest a reading without `seconds` is assumed to last. */
+const MAX_EPOCH_SECONDS = 5 * 60;
+
+/** Number of nights the readings cover. */
+export const countNights = (epochs: SleepEpoch[], clock: (t: number) => LocalTime) =>
+  new Set(epochs.map((epoch) => clock(epoch.t).night)).size;
+
+/** A change the analysis suggests, before it gets an id and a status. */
+export type SetpointChange = Omit<Recommendation, 'id' | 'status' | 'at'>;
+
+/**
+ * Learns from sleep data which temperatures went with better sleep during
+ * each segment of a sleep program, and suggests moving setpoints toward them.
+ *
+ * Readings are grouped by the program segment they fell in and by the sensed
+ * temperature of the side, in 2°F bands; `temperatureAt` gives that
+ * temperature, and readings it has none for assume the segment's setpoint.
+ * A setpoint moves when another band with enough sleep did clearly better than
+ * the band around it, by at most 2°F at a time and within `limit`. Setpoints
+ * sharing a time and temperature on different days are treated as one.
+ */
+export function recommendSetpoints({
+  epochs,
+  program,
+  clock,
+  temperatureAt,
+  limit,
+}: {
+  epochs: SleepEpoch[];
+  program: WeeklyProgram | undefined;
+  clock: (t: number) => LocalTime;
+  temperatureAt: (t: number) => number | undefined;
+  /** Keeps a Fahrenheit target within the offered range. */
+  limit: (f: number) => number;
+}): SetpointChange[] {
+  const metric: SleepMetric = epochs.some((epoch) => epoch.stage) ? 'deep' : 'heartRate';
+  // Each reading counts with what it says about the metric: whether it was deep
+  // sleep, or its heart rate. Readings that say nothing about it are skipped.
+  const usable = epochs
+    .flatMap((epoch) => {
+      const value = metric === 'deep' ? epoch.stage && Number(epoch.stage === 'deep') : epoch.heartRate;
+      return value === undefined ? [] : [{ ...epoch, value }];
+    })
+    .sort((a, b) => a.t - b.t);
+
+  const groups = new Map<
+    string,
+    { time: string; temp: number; nights: Set<string>; bands: Map<number, { minutes: number; total: number }> }
+  >();
+  usable.forEach((epoch, i) => {
+    const next = usable[i + 1];
+    const seconds = epoch.seconds ?? Math.min(MAX_EPOCH_SECONDS, next ? (next.t - epoch.t) / 1000 : 30);
+    const local = clock(epoch.t);
+    const { active } = evaluateScheduleAt(program, local.weekMinutes);
+    if (!active || seconds <= 0) return;
+
+    const key = `${active.time}|${active.temp}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { time: active.time, temp: active.temp, nights: new Set(), bands: new Map() };
+      groups.set(key, group);
+    }
+    group.nights.add(local.night);
+    const band = Math.round((temperatureAt(epoch.t) ?? active.temp) / BAND_F) * BAND_F;
+    const stats = group.bands.get(band) ?? { minutes: 0, total: 0 };
+    const minutes = seconds / 60;
+    stats.minutes += minutes;
+    stats.total += epoch.value * minutes;
+    group.bands.set(band, stats);
+  });
+
+  // Higher deep sleep is better; a lower heart rate is.
+  const gain = (a: TempEvidence, b: TempEvidence) => (metric === 'deep' ? a.value - b.value : b.value - a.value);
+
+  const changes: SetpointChange[] = [];
+  for (const { time, temp, nights, bands } of groups.values()) {
+    const evidence = [...bands]
+      .filter(([, { minutes }]) => minutes >= MIN_BAND_MINUTES)
+      .map(([band, { minutes, total }]): TempEvidence => ({ temp: band, minutes, value: total / minutes }));
+    const current = evidence.find((e) => e.temp === Math.round(temp / BAND_F) * BAND_F);
+    if (!current) continue;
+    const best = evidence.reduce((a, b) => (gain(b, a) > 0 ? b : a));
+    if (best === current || gain(best, current) < MIN_GAIN[metric]) continue;
+
+    const step = Math.max(-MAX_STEP_F, Math.min(MAX_STEP_F, best.temp - temp));
+    const to = limit(temp + step);
+    if (Math.abs(to - temp) < 0.5) continue;
+    const days = WEEKDAYS.filter((day) => program?.[day]?.some((sp) => sp.time === time && sp.temp === temp));
+    changes.push({ time, days, from: temp, to, metric, nights: nights.size, current, best });
+  }
+  return changes.sort((a, b) => timeToMinutes(a.time) - timeToMinutes(b.time));
+}
+
+/**
+ * The program with the setpoints at `time` on `days` changed from `from` to
+ * `to`, or `null` when none of them is still at `from`.
+ */
+export function changeSetpoints(
+  program: WeeklyProgram | undefined,
+  { time, days, from, to }: Pick<Recommendation, 'time' | 'days' | 'from' | 'to'>,
+): WeeklyProgram | null {
+  let changed = false;
+  const next: WeeklyProgram = { ...program };
+  for (const day of days) {
+    next[day] = program?.[day]?.map((sp) => {
+      if (sp.time !== time || sp.temp !== from) return sp;
+      changed = true;
+      return { ...sp, temp: to };
+    });
+  }
+  return changed ? next : null;
+}
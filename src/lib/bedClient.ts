@@ -0,0 +1,107 @@
+import type { AutopilotMode, SleepEpoch } from './autopilot';
+import type { ConfigDocument } from './configDocument';
+import type { BedHistory } from './history';
+import type { PresenceSettings } from './presence';
+import type { Preset } from './presets';
+import type { SafetySettings } from './safety';
+import type { TempUnit } from './temperature';
+import { BedApiError, BedErrorBody } from './validation';
+import type { BedEvent, BedState, BedSummary, LinkSettings, Side, ZonePatch } from './zone';
+
+/** Identifies this browser tab to the server so it can tell writers apart. */
+export const CLIENT_ID = Math.random().toString(36).slice(2, 10);
+
+async function request<T = BedState>(input: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(input, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'X-Client-Id': CLIENT_ID, ...init?.headers },
+  });
+  if (!res.ok) {
+    const body = (await res.json().catch(() => null)) as BedErrorBody | null;
+    throw new BedApiError(
+      body?.error.code ?? 'internal',
+      body?.error.message ?? res.statusText,
+      body?.error.field,
+      res.status,
+    );
+  }
+  return res.json();
+}
+
+const bedUrl = (bedId: string, path = '') => `/api/beds/${encodeURIComponent(bedId)}${path}`;
+
+/** Download address of a bed's configuration document, recording `unit` as the display unit. */
+export const configUrl = (bedId: string, unit: TempUnit) => bedUrl(bedId, `/config?unit=${unit}`);
+
+/** Address of a bed's sleep programs as an iCalendar feed, with temperatures in `unit`. */
+export const calendarUrl = (bedId: string, unit: TempUnit) => bedUrl(bedId, `/schedule.ics?unit=${unit}`);
+
+/** Loads every bed with its zones. */
+export const fetchBeds = () => request<BedSummary[]>('/api/beds', { cache: 'no-store' });
+
+/** Loads the full state of a bed from the server. */
+export const fetchBed = (bedId: string) => request(bedUrl(bedId), { cache: 'no-store' });
+
+/** Loads recorded samples of both sides between two epoch-millisecond timestamps. */
+export const fetchHistory = (bedId: string, from: number, to: number) =>
+  request<BedHistory>(bedUrl(bedId, `/history?from=${from}&to=${to}`), { cache: 'no-store' });
+
+/**
+ * Updates one side of a bed and resolves with the server's resulting state.
+ * `baseVersion` is the side version the change was made against.
+ */
+export const patchSide = (bedId: string, side: Side, patch: ZonePatch, baseVersion?: number) =>
+  request(bedUrl(bedId, `/${side}`), {
+    method: 'PATCH',
+    body: JSON.stringify(patch),
+    headers: baseVersion === undefined ? undefined : { 'If-Match': `"${baseVersion}"` },
+  });
+
+/** Changes a bed's safety limits or child lock and resolves with the resulting state. */
+export const patchSafety = (bedId: string, patch: Partial<SafetySettings>) =>
+  request(bedUrl(bedId, '/safety'), { method: 'PATCH', body: JSON.stringify(patch) });
+
+/** Changes the presence automation of a bed's sides and resolves with the resulting state. */
+export const patchPresence = (bedId: string, patch: Partial<Record<Side, Partial<PresenceSettings>>>) =>
+  request(bedUrl(bedId, '/presence'), { method: 'PATCH', body: JSON.stringify(patch) });
+
+/** Links or unlinks a bed's sides and resolves with the resulting state. */
+export const patchLink = (bedId: string, patch: Partial<LinkSettings>) =>
+  request(bedUrl(bedId, '/link'), { method: 'PATCH', body: JSON.stringify(patch) });
+
+/** Changes the autopilot mode of a bed's sides and resolves with the resulting state. */
+export const patchAutopilot = (bedId: string, patch: Partial<Record<Side, { mode: AutopilotMode }>>) =>
+  request(bedUrl(bedId, '/autopilot'), { method: 'PATCH', body: JSON.stringify(patch) });
+
+/**
+ * Sends sleep data for one side and resolves with the resulting state
+ * including any new recommendations.
+ */
+export const postSleepData = (bedId: string, side: Side, epochs: SleepEpoch[]) =>
+  request(bedUrl(bedId, `/${side}/sleep`), { method: 'POST', body: JSON.stringify({ epochs }) });
+
+/** Accepts or rejects an autopilot recommendation and resolves with the resulting state. */
+export const decideRecommendation = (bedId: string, side: Side, id: string, status: 'accepted' | 'rejected') =>
+  request(bedUrl(bedId, `/${side}/recommendations/${encodeURIComponent(id)}`), {
+    method: 'PATCH',
+    body: JSON.stringify({ status }),
+  });
+
+/** Applies a configuration document to a bed and resolves with the resulting state. */
+export const putConfig = (bedId: string, config: ConfigDocument) =>
+  request(bedUrl(bedId, '/config'), { method: 'PUT', body: JSON.stringify(config) });
+
+/** Replaces a bed's presets and resolves with the resulting state. */
+export const putPresets = (bedId: string, presets: Preset[]) =>
+  request(bedUrl(bedId, '/presets'), { method: 'PUT', body: JSON.stringify(presets) });
+
+/**
+ * Listens for changes to a bed pushed by the server. The browser reconnects on
+ * its own after network drops and receives a fresh snapshot each time.
+ * Returns a function that closes the connection.
+ */
+export function subscribeBed(bedId: string, onEvent: (event: BedEvent) => void): () => void {
+  const source = new EventSource(bedUrl(bedId, '/events'));
+  source.onmessage = (message) => onEvent(JSON.parse(message.data) as BedEvent);
+  return () => source.close();
+}
@@ -0,0 +1,34 @@
+/**
+ * Relative comfort levels, for users who think in "cooler" and "warmer"
+ * rather than degrees. Level 0 is the neutral point; −10 and +10 are the
+ * coldest and warmest targets allowed. Each half of the scale is spread
+ * evenly over its half of the temperature range, so the neutral point need
+ * not be centered.
+ */
+export interface ComfortRange {
+  /** Temperature of level −10, in Fahrenheit. */
+  min: number;
+  /** Temperature of level 0, in Fahrenheit. */
+  mid: number;
+  /** Temperature of level +10, in Fahrenheit. */
+  max: number;
+}
+
+export const COMFORT_LEVELS = 10;
+
+/** Nearest comfort level of a Fahrenheit temperature. */
+export function tempToLevel(f: number, { min, mid, max }: ComfortRange): number {
+  const span = f < mid ? mid - min : max - mid;
+  const level = span > 0 ? Math.round(((f - mid) / span) * COMFORT_LEVELS) : 0;
+  return Math.min(COMFORT_LEVELS, Math.max(-COMFORT_LEVELS, level)) || 0;
+}
+
+/** Fahrenheit temperature of a comfort level. */
+export function levelToTemp(level: number, { min, mid, max }: ComfortRange): number {
+  const clamped = Math.min(COMFORT_LEVELS, Math.max(-COMFORT_LEVELS, level));
+  return mid + (clamped / COMFORT_LEVELS) * (clamped < 0 ? mid - min : max - mid);
+}
+
+/** A comfort level with its sign, e.g. `+3`, `0` or `−2`. */
+export const formatLevel = (level: number) =>
+  level > 0 ? `+${level}` : level < 0 ? `−${-level}` : '0';
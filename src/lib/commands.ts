@@ -0,0 +1,133 @@
+import type { DemoMessages } from './messages';
+import { MAX_RAMP_MINUTES, WakeAlarm } from './schedule';
+import type { Automation, Mode, Side, ZonePatch, ZoneState } from './zone';
+
+/**
+ * Where a command stands: `pending` until the controller answers, then
+ * `applied` or `rejected`. An applied command that was reverted is `undone`.
+ */
+export type CommandStatus = 'pending' | 'applied' | 'rejected' | 'undone';
+
+/** The settings of a side that commands change. */
+export type ZoneSettings = Pick<ZoneState, 'mode' | 'targetTemp' | 'schedule'>;
+
+/**
+ * One change sent to a side. Changes made by a single action, such as a
+ * target mirrored onto a linked side, share a `group` and are undone together.
+ */
+export interface ZoneCommand {
+  id: number;
+  group: number;
+  side: Side;
+  /** Milliseconds since the epoch. */
+  at: number;
+  before: ZoneSettings;
+  after: ZoneSettings;
+  status: CommandStatus;
+  /** Automation that issued the command; absent for user changes. */
+  source?: Automation;
+  /** Reason given by the server for a rejected command. */
+  error?: string;
+  /** Group of the commands this one reverts. */
+  undoes?: number;
+}
+
+/** Commands kept per side. */
+export const COMMAND_HISTORY_LIMIT = 30;
+
+export const settingsOf = ({ mode, targetTemp, schedule }: ZoneState): ZoneSettings => ({
+  mode,
+  targetTemp,
+  schedule,
+});
+
+export const sameSettings = (a: ZoneSettings, b: ZoneSettings) =>
+  a.mode === b.mode &&
+  a.targetTemp === b.targetTemp &&
+  JSON.stringify(a.schedule) === JSON.stringify(b.schedule);
+
+/**
+ * The part of a command the server needs: only the settings it changes, so
+ * resending the others doesn't count as choosing them again.
+ */
+export const settingsPatch = ({ before, after }: Pick<ZoneCommand, 'before' | 'after'>): ZonePatch => ({
+  ...(after.mode !== before.mode ? { mode: after.mode } : {}),
+  ...(after.targetTemp !== undefined && after.targetTemp !== before.targetTemp ? { targetTemp: after.targetTemp } : {}),
+  ...(JSON.stringify(after.schedule) !== JSON.stringify(before.schedule) ? { schedule: after.schedule } : {}),
+});
+
+/**
+ * Short description of what a command changed, e.g. "Target 68°F → 70°F",
+ * in the language of `text`. `formatTarget` renders a Fahrenheit target for
+ * display and `modes` names the modes.
+ */
+export function describeCommand(
+  { before, after, undoes }: ZoneCommand,
+  formatTarget: (f: number) => string,
+  text: DemoMessages,
+  modes: Record<Mode, string>,
+): string {
+  const parts: string[] = [];
+  if (before.mode !== after.mode) {
+    parts.push(
+      after.mode === 'off'
+        ? text.turnedOff
+        : before.mode === 'off'
+        ? text.turnedOn(modes[after.mode])
+        : text.switchedTo(modes[after.mode]),
+    );
+  }
+  if (after.targetTemp !== undefined && before.targetTemp !== after.targetTemp) {
+    parts.push(
+      before.targetTemp === undefined
+        ? text.target(formatTarget(after.targetTemp))
+        : text.targetChange(formatTarget(before.targetTemp), formatTarget(after.targetTemp)),
+    );
+  }
+  if (JSON.stringify(before.schedule) !== JSON.stringify(after.schedule)) parts.push(text.scheduleChanged);
+  const summary = parts.join(' · ') || text.noChange;
+  return undoes === undefined ? summary : text.undone(summary);
+}
+
+/** Adds a command to the front of a side's history, dropping the oldest beyond the limit. */
+export const recordCommand = (history: ZoneCommand[], command: ZoneCommand) =>
+  [command, ...history].slice(0, COMMAND_HISTORY_LIMIT);
+
+/**
+ * Adds a change made by the server's schedules to a side's history. The steps
+ * of a wake-up ramp make up one entry, which a step taken no later than the
+ * ramp's length after it began extends.
+ */
+export function recordAutomation(history: ZoneCommand[], command: ZoneCommand, wake: WakeAlarm | undefined) {
+  const [latest, ...rest] = history;
+  const sameRamp =
+    command.source === 'wake' &&
+    latest?.source === 'wake' &&
+    command.at - latest.at <= ((wake?.rampMinutes ?? MAX_RAMP_MINUTES) + 1) * 60_000;
+  return sameRamp ? [{ ...latest, after: command.after }, ...rest] : recordCommand(history, command);
+}
+
+/** Updates the commands matching `match` in every side's history. */
+export const updateCommands = (
+  histories: Record<Side, ZoneCommand[]>,
+  match: (command: ZoneCommand) => boolean,
+  patch: Partial<ZoneCommand>,
+): Record<Side, ZoneCommand[]> =>
+  Object.fromEntries(
+    Object.entries(histories).map(([side, history]) => [
+      side,
+      history.map((command) => (match(command) ? { ...command, ...patch } : command)),
+    ]),
+  ) as Record<Side, ZoneCommand[]>;
+
+/**
+ * The most recent user change that can still be undone, with every command of
+ * its group. Automation, rejected commands and undos themselves are skipped.
+ */
+export function lastUndoable(histories: Record<Side, ZoneCommand[]>): ZoneCommand[] {
+  const all = Object.values(histories).flat();
+  const latest = all
+    .filter((c) => !c.source && c.undoes === undefined && (c.status === 'applied' || c.status === 'pending'))
+    .reduce<ZoneCommand | undefined>((best, c) => (!best || c.id > best.id ? c : best), undefined);
+  return latest ? all.filter((c) => c.group === latest.group && c.status !== 'rejected') : [];
+}
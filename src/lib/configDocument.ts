@@ -0,0 +1,108 @@
+import { MAX_RAMP_MINUTES, ZoneSchedule } from './schedule';
+import { TEMP_UNITS, TempUnit } from './temperature';
+import { BedState, MAX_SIDE_NAME_LENGTH, Side, SIDES, TEMP_RANGE_F } from './zone';
+
+/** Identifies a bed configuration document. */
+export const CONFIG_FORMAT = 'bed-zones-config';
+
+/** Bump when `ConfigDocument` changes shape, and teach `parseConfigDocument` to read the old one. */
+export const CONFIG_VERSION = 1;
+
+/** Schedule settings that carry over to another bed. Sleep timers run out, so they stay behind. */
+export type PortableSchedule = Omit<ZoneSchedule, 'sleepTimer'>;
+
+/**
+ * A bed's configuration as exported for copying onto another bed.
+ * Temperatures are in Fahrenheit like everywhere else; `unit` is the display
+ * unit of the person who exported it.
+ */
+export interface ConfigDocument {
+  format: typeof CONFIG_FORMAT;
+  version: typeof CONFIG_VERSION;
+  unit: TempUnit;
+  sideNames: Record<Side, string>;
+  schedules: Record<Side, PortableSchedule>;
+}
+
+const portable = ({ running, nextStart, program, wake }: ZoneSchedule = { running: false }): PortableSchedule => ({
+  running,
+  ...(nextStart !== undefined ? { nextStart } : {}),
+  ...(program !== undefined ? { program } : {}),
+  ...(wake !== undefined ? { wake } : {}),
+});
+
+/** The configuration document of a bed. */
+export const exportConfig = (bed: BedState, unit: TempUnit): ConfigDocument => ({
+  format: CONFIG_FORMAT,
+  version: CONFIG_VERSION,
+  unit,
+  sideNames: bed.sideNames,
+  schedules: Object.fromEntries(SIDES.map((side) => [side, portable(bed.zones[side].schedule)])) as Record<
+    Side,
+    PortableSchedule
+  >,
+});
+
+const time = { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' } as const;
+const temperature = { type: 'number', minimum: TEMP_RANGE_F.min, maximum: TEMP_RANGE_F.max } as const;
+
+const schedule = {
+  type: 'object',
+  required: ['running'],
+  additionalProperties: false,
+  properties: {
+    running: { type: 'boolean' },
+    nextStart: time,
+    program: {
+      type: 'object',
+      description: 'Setpoints per weekday, 0 being Sunday.',
+      propertyNames: { enum: ['0', '1', '2', '3', '4', '5', '6'] },
+      additionalProperties: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['time', 'temp'],
+          properties: { time, temp: temperature, label: { type: 'string' } },
+        },
+      },
+    },
+    wake: {
+      type: 'object',
+      required: ['enabled', 'time', 'temp', 'rampMinutes'],
+      properties: {
+        enabled: { type: 'boolean' },
+        time,
+        temp: temperature,
+        rampMinutes: { type: 'integer', minimum: 0, maximum: MAX_RAMP_MINUTES },
+      },
+    },
+  },
+} as const;
+
+const perSide = <T>(value: T) => ({
+  type: 'object',
+  required: SIDES,
+  additionalProperties: false,
+  properties: Object.fromEntries(SIDES.map((side) => [side, value])),
+});
+
+/**
+ * JSON Schema of `ConfigDocument`, for editors and other tools. Imports are
+ * checked by `parseConfigDocument`, which enforces the same rules and names
+ * the field that broke one.
+ */
+export const CONFIG_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'Bed zones configuration',
+  type: 'object',
+  required: ['format', 'version', 'unit', 'sideNames', 'schedules'],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    format: { const: CONFIG_FORMAT },
+    version: { const: CONFIG_VERSION },
+    unit: { enum: TEMP_UNITS },
+    sideNames: perSide({ type: 'string', maxLength: MAX_SIDE_NAME_LENGTH }),
+    schedules: perSide(schedule),
+  },
+};
@@ -0,0 +1,108 @@
+import { DEFAULT_THERMAL_CONFIG, SIMULATED_MINUTES_PER_SECOND, simulateBed, ThermalConfig } from '../simulation';
+import type { ZoneFault } from '../faults';
+import { DEFAULT_BED, DEFAULT_CAPABILITIES, Mode, Side, SIDES } from '../zone';
+import type { BedDevice, DeviceCapabilities, ZoneReading, ZoneTelemetry } from './types';
+
+export interface MockDeviceOptions {
+  capabilities?: DeviceCapabilities;
+  /** Initial readings; by default someone lies on the left side and the right is empty. */
+  zones?: Record<Side, ZoneReading>;
+  thermal?: ThermalConfig;
+  /**
+   * Real milliseconds between simulation steps, or `null` to only advance
+   * when `advance` is called, which makes the device fully deterministic.
+   */
+  tickMs?: number | null;
+}
+
+/** In-process controller backed by the thermal simulation. */
+export interface MockBedDevice extends BedDevice {
+  /** Runs the simulation forward by `minutes` and emits telemetry. */
+  advance(minutes: number): void;
+  /**
+   * Reports a fault on one side, or clears it when `fault` is omitted. An
+   * offline side refuses commands like an unreachable controller would.
+   */
+  setFault(side: Side, fault?: ZoneFault): void;
+  /** Reports someone lying down on a side, or getting up. */
+  setOccupied(side: Side, occupied: boolean): void;
+}
+
+const DEFAULT_OCCUPANCY: Record<Side, boolean> = { left: true, right: false };
+
+const pickReadings = (zones: typeof DEFAULT_BED.zones) =>
+  Object.fromEntries(
+    SIDES.map((side) => {
+      const { mode, currentTemp, targetTemp } = zones[side];
+      return [side, { mode, currentTemp, targetTemp, occupied: DEFAULT_OCCUPANCY[side] }];
+    }),
+  ) as Record<Side, ZoneReading>;
+
+export function createMockDevice({
+  capabilities = DEFAULT_CAPABILITIES,
+  zones: initialZones = pickReadings(DEFAULT_BED.zones),
+  thermal = DEFAULT_THERMAL_CONFIG,
+  tickMs = null,
+}: MockDeviceOptions = {}): MockBedDevice {
+  let zones: Record<Side, ZoneReading> = structuredClone(initialZones);
+  const listeners = new Set<(telemetry: ZoneTelemetry) => void>();
+
+  const emit = (side: Side) =>
+    listeners.forEach((listener) => listener({ side, ...zones[side] }));
+
+  const update = (side: Side, patch: Partial<ZoneReading>) => {
+    zones = { ...zones, [side]: { ...zones[side], ...patch } };
+    emit(side);
+  };
+
+  const reachable = (side: Side) => {
+    if (zones[side].fault === 'offline') throw new Error(`The ${side} side is not responding`);
+  };
+
+  const advance = (minutes: number) => {
+    zones = simulateBed(zones, minutes, thermal);
+    SIDES.forEach(emit);
+  };
+
+  const timer =
+    tickMs === null
+      ? undefined
+      : setInterval(() => advance((tickMs / 1000) * SIMULATED_MINUTES_PER_SECOND), tickMs);
+
+  return {
+    advance,
+    setFault(side, fault) {
+      const reading = { ...zones[side], fault };
+      if (!fault) delete reading.fault;
+      zones = { ...zones, [side]: reading };
+      emit(side);
+    },
+    setOccupied(side, occupied) {
+      update(side, { occupied });
+    },
+    capabilities: async () => capabilities,
+    readZones: async () => zones,
+    async setTarget(side, targetTemp) {
+      reachable(side);
+      if (targetTemp < capabilities.minTemp || targetTemp > capabilities.maxTemp) {
+        throw new Error(`Target ${targetTemp}°F is outside the supported range`);
+      }
+      update(side, { targetTemp });
+    },
+    async setMode(side: Side, mode: Mode) {
+      reachable(side);
+      if (!capabilities.modes.includes(mode)) {
+        throw new Error(`Mode "${mode}" is not supported`);
+      }
+      update(side, { mode });
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close() {
+      clearInterval(timer);
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,181 @@
+import { Socket } from 'node:net';
+import { SIDES, type Mode, type Side } from '../zone';
+import type { BedDevice, DeviceCapabilities, ZoneReading, ZoneTelemetry } from './types';
+
+/*
+ * Line protocol: every message is one JSON object followed by "\n".
+ *
+ *   → {"id":1,"cmd":"capabilities"}
+ *   ← {"id":1,"ok":true,"result":{"minTemp":55,"maxTemp":110,"modes":["off","cool","heat"]}}
+ *   → {"id":2,"cmd":"read"}
+ *   ← {"id":2,"ok":true,"result":{"left":{...},"right":{...}}}
+ *   → {"id":3,"cmd":"set","side":"left","targetTemp":68}
+ *   → {"id":4,"cmd":"set","side":"left","mode":"cool"}
+ *   ← {"id":3,"ok":false,"error":"target out of range"}
+ *   ← {"event":"telemetry","side":"left","mode":"cool","currentTemp":70.4,"targetTemp":68}
+ *   ← {"event":"telemetry","side":"left","mode":"off","currentTemp":70.4,"fault":"low_water"}
+ *   ← {"event":"telemetry","side":"left","mode":"cool","currentTemp":68,"targetTemp":68,"occupied":true}
+ *
+ * Responses carry the id of their request; telemetry lines arrive unprompted.
+ * Zones may carry a `fault`; a reading without one means the zone is healthy.
+ * Controllers with presence sensors add `occupied` to every reading.
+ * While the connection is down the adapter reports every zone as `offline`.
+ */
+
+export interface TcpDeviceOptions {
+  host: string;
+  port: number;
+  /** Milliseconds to wait for a response before failing a command. */
+  timeoutMs?: number;
+  /** Milliseconds to wait before reconnecting after the connection drops. */
+  reconnectMs?: number;
+}
+
+type ReplyLine = { id: number; ok: true; result?: unknown } | { id: number; ok: false; error: string };
+type TelemetryLine = { event: 'telemetry' } & ZoneTelemetry;
+
+interface Pending {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Adapter for controllers speaking line-delimited JSON over TCP. */
+export function createTcpDevice({
+  host,
+  port,
+  timeoutMs = 5000,
+  reconnectMs = 2000,
+}: TcpDeviceOptions): BedDevice {
+  const listeners = new Set<(telemetry: ZoneTelemetry) => void>();
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+  let socket: Socket | null = null;
+  let connecting: Promise<Socket> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+  // Last reading of each side, re-sent as offline while the connection is down.
+  const last: Partial<Record<Side, ZoneReading>> = {};
+
+  const emit = (telemetry: ZoneTelemetry) => {
+    const { side, ...reading } = telemetry;
+    last[side] = reading;
+    listeners.forEach((listener) => listener(telemetry));
+  };
+
+  const failPending = (error: Error) => {
+    pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    pending.clear();
+  };
+
+  const handleLine = (line: string) => {
+    let message: ReplyLine | TelemetryLine;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if ('event' in message) {
+      const { side, mode, currentTemp, targetTemp, fault, occupied } = message;
+      const telemetry: ZoneTelemetry = { side, mode, currentTemp, targetTemp };
+      if (fault) telemetry.fault = fault;
+      if (typeof occupied === 'boolean') telemetry.occupied = occupied;
+      emit(telemetry);
+      return;
+    }
+    const entry = pending.get(message.id);
+    if (!entry) return;
+    pending.delete(message.id);
+    clearTimeout(entry.timer);
+    if (message.ok) entry.resolve(message.result);
+    else entry.reject(new Error(message.error));
+  };
+
+  const connect = () => {
+    if (socket) return Promise.resolve(socket);
+    connecting ??= new Promise<Socket>((resolve, reject) => {
+      const s = new Socket();
+      let buffer = '';
+      s.setEncoding('utf8');
+      s.on('data', (chunk: string) => {
+        buffer += chunk;
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          handleLine(buffer.slice(0, newline));
+          buffer = buffer.slice(newline + 1);
+        }
+      });
+      s.once('connect', () => {
+        socket = s;
+        connecting = null;
+        resolve(s);
+      });
+      s.on('error', (error) => {
+        if (socket !== s) {
+          connecting = null;
+          reject(error);
+        }
+      });
+      s.on('close', () => {
+        if (socket !== s) return;
+        socket = null;
+        failPending(new Error('Connection to bed controller closed'));
+        SIDES.forEach((side) => {
+          const reading = last[side];
+          if (reading) listeners.forEach((listener) => listener({ side, ...reading, fault: 'offline' }));
+        });
+        keepConnected();
+      });
+      s.connect(port, host);
+    });
+    return connecting;
+  };
+
+  // Subscribers expect telemetry to resume once the controller is back.
+  const keepConnected = () => {
+    if (closed || listeners.size === 0) return;
+    clearTimeout(reconnectTimer);
+    reconnectTimer = setTimeout(() => connect().then(refresh).catch(keepConnected), reconnectMs);
+  };
+
+  // Replaces the offline readings sent while the connection was down.
+  const refresh = async () => {
+    const readings = await send<Record<Side, ZoneReading>>({ cmd: 'read' });
+    SIDES.forEach((side) => emit({ side, ...readings[side] }));
+  };
+
+  const send = async <T>(message: Record<string, unknown>): Promise<T> => {
+    const s = await connect();
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`Bed controller did not answer "${message.cmd}" in time`));
+      }, timeoutMs);
+      pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timer });
+      s.write(`${JSON.stringify({ id, ...message })}\n`);
+    });
+  };
+
+  return {
+    capabilities: () => send<DeviceCapabilities>({ cmd: 'capabilities' }),
+    readZones: () => send<Record<Side, ZoneReading>>({ cmd: 'read' }),
+    setTarget: (side: Side, targetTemp: number) => send<void>({ cmd: 'set', side, targetTemp }),
+    setMode: (side: Side, mode: Mode) => send<void>({ cmd: 'set', side, mode }),
+    subscribe(listener) {
+      listeners.add(listener);
+      connect().catch(keepConnected);
+      return () => listeners.delete(listener);
+    },
+    close() {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      listeners.clear();
+      failPending(new Error('Bed controller adapter closed'));
+      socket?.destroy();
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { Mode, Side, ZoneState } from '../zone';
+
+/** What a bed controller can do. Temperatures are in Fahrenheit. */
+export interface DeviceCapabilities {
+  minTemp: number;
+  maxTemp: number;
+  /** Modes the controller accepts; always includes `off`. */
+  modes: Mode[];
+}
+
+/**
+ * The part of a zone's state that the controller owns. A reading without a
+ * `fault` clears any fault reported before; `occupied` is only included by
+ * controllers that sense it.
+ */
+export type ZoneReading = Pick<ZoneState, 'mode' | 'currentTemp' | 'targetTemp' | 'fault' | 'occupied'>;
+
+/** A reading pushed by the controller whenever a zone changes. */
+export interface ZoneTelemetry extends ZoneReading {
+  side: Side;
+}
+
+/**
+ * Contract every bed controller adapter implements. The UI and API only talk
+ * to this interface, so controllers can be swapped without touching them.
+ * Methods reject when the controller cannot be reached or refuses a command.
+ */
+export interface BedDevice {
+  capabilities(): Promise<DeviceCapabilities>;
+  readZones(): Promise<Record<Side, ZoneReading>>;
+  setTarget(side: Side, targetTemp: number): Promise<void>;
+  setMode(side: Side, mode: Mode): Promise<void>;
+  /** Registers a telemetry listener and returns a function that removes it. */
+  subscribe(listener: (telemetry: ZoneTelemetry) => void): () => void;
+  /** Releases timers and connections held by the adapter. */
+  close(): void;
+}
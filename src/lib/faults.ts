@@ -0,0 +1,12 @@
+/**
+ * Problems that stop a zone from working normally. `offline` means the
+ * controller can't be reached, `sensor_failure` that the zone's temperature
+ * reading can't be trusted and `low_water` that the reservoir needs a refill.
+ */
+export type ZoneFault = 'offline' | 'sensor_failure' | 'low_water';
+
+export const ZONE_FAULTS: readonly ZoneFault[] = ['offline', 'sensor_failure', 'low_water'];
+
+/** Whether a fault makes the sensed temperature meaningless. */
+export const hidesReading = (fault: ZoneFault | undefined) =>
+  fault === 'offline' || fault === 'sensor_failure';
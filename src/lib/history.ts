@@ -0,0 +1,60 @@
+import type { Mode, Side } from './zone';
+
+/** One recorded reading of a zone. Temperatures are in Fahrenheit. */
+export interface HistorySample {
+  /** Milliseconds since the epoch. */
+  t: number;
+  currentTemp: number;
+  targetTemp?: number;
+  mode: Mode;
+}
+
+export type BedHistory = Record<Side, HistorySample[]>;
+
+export type HistoryRange = 'hour' | 'night' | 'week';
+
+export const HISTORY_RANGES: readonly HistoryRange[] = ['hour', 'night', 'week'];
+
+/** How long samples are kept. */
+export const HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Hours that bound a night, in local time. */
+const NIGHT_START_HOUR = 20;
+const NIGHT_END_HOUR = 8;
+
+/**
+ * Time window shown for a range. "Last night" is the most recent
+ * 20:00–08:00 period, cut off at `now` while it is still under way.
+ */
+export function rangeWindow(range: HistoryRange, now: Date): { from: number; to: number } {
+  const to = now.getTime();
+  if (range === 'hour') return { from: to - 60 * 60 * 1000, to };
+  if (range === 'week') return { from: to - HISTORY_RETENTION_MS, to };
+
+  const start = new Date(now);
+  start.setHours(NIGHT_START_HOUR, 0, 0, 0);
+  if (now.getHours() < NIGHT_START_HOUR) start.setDate(start.getDate() - 1);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  end.setHours(NIGHT_END_HOUR);
+  return { from: start.getTime(), to: Math.min(to, end.getTime()) };
+}
+
+/**
+ * Thins samples to at most `maxPoints` by keeping the last sample of each
+ * equal-width time bucket, plus every sample where the mode changes so heat
+ * and cool periods keep their edges.
+ */
+export function downsample(samples: HistorySample[], maxPoints: number): HistorySample[] {
+  if (samples.length <= maxPoints) return samples;
+  const first = samples[0].t;
+  const width = (samples[samples.length - 1].t - first) / maxPoints || 1;
+  return samples.filter((sample, i) => {
+    const next = samples[i + 1];
+    return (
+      !next ||
+      Math.floor((next.t - first) / width) !== Math.floor((sample.t - first) / width) ||
+      next.mode !== sample.mode
+    );
+  });
+}
@@ -0,0 +1,91 @@
+import { snap, TempUnit, toUnit, UNIT_STEP } from './temperature';
+import type { Weekday } from './schedule';
+
+/** Languages with a bundled message catalog. */
+export type Locale = 'en' | 'de' | 'es';
+
+export const LOCALES: readonly Locale[] = ['en', 'de', 'es'];
+
+/** Each locale's name in its own language, for pickers. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  es: 'Español',
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Clock used for times of day; when not set, the locale's own convention applies. */
+export type HourCycle = '12h' | '24h';
+
+export const HOUR_CYCLES: readonly HourCycle[] = ['12h', '24h'];
+
+/**
+ * The bundled locale for a BCP 47 tag, matched on its language so `de-AT`
+ * gives `de`. Unknown languages give the default.
+ */
+export function resolveLocale(tag: string | undefined): Locale {
+  const language = tag?.toLowerCase().split('-')[0];
+  return LOCALES.find((locale) => locale === language) ?? DEFAULT_LOCALE;
+}
+
+/** Formats numbers, temperatures and times the way a locale writes them. */
+export interface LocaleFormat {
+  locale: string;
+  /** A number with at most `maximumFractionDigits` decimals (default 1), e.g. `20,5`. */
+  number: (value: number, maximumFractionDigits?: number) => string;
+  /** A share from 0 to 1 as a whole percentage, e.g. `24 %`. */
+  percent: (share: number) => string;
+  /** A value already in `unit`, e.g. `20,5 °C`. */
+  degrees: (value: number, unit: TempUnit) => string;
+  /** A Fahrenheit value converted to `unit` and snapped to `step`. */
+  temp: (f: number, unit: TempUnit, step?: number) => string;
+  /** A time of day given as "HH:MM", e.g. `7:30 PM` or `19:30`; anything else is returned as is. */
+  time: (time: string) => string;
+  /** The time of day of an epoch-millisecond timestamp. */
+  clock: (t: number) => string;
+  /** Short weekday name, e.g. `Mon` or `Mo`. */
+  weekday: (day: Weekday) => string;
+}
+
+/**
+ * Formatting for `locale`, any BCP 47 tag. Times follow `hourCycle`, or the
+ * locale's convention when it is left out.
+ */
+export function localeFormat(locale: string, hourCycle?: HourCycle): LocaleFormat {
+  const numbers = new Map<number, Intl.NumberFormat>();
+  const numberFormat = (digits: number) => {
+    let format = numbers.get(digits);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, { maximumFractionDigits: digits });
+      numbers.set(digits, format);
+    }
+    return format;
+  };
+  const temps: Record<TempUnit, Intl.NumberFormat> = {
+    F: new Intl.NumberFormat(locale, { style: 'unit', unit: 'fahrenheit', maximumFractionDigits: 1 }),
+    C: new Intl.NumberFormat(locale, { style: 'unit', unit: 'celsius', maximumFractionDigits: 1 }),
+  };
+  const times = new Intl.DateTimeFormat(locale, {
+    hour: hourCycle === '24h' ? '2-digit' : 'numeric',
+    minute: '2-digit',
+    hourCycle: hourCycle && (hourCycle === '24h' ? 'h23' : 'h12'),
+  });
+  const percents = new Intl.NumberFormat(locale, { style: 'percent' });
+  const weekdays = new Intl.DateTimeFormat(locale, { weekday: 'short' });
+
+  return {
+    locale,
+    number: (value, maximumFractionDigits = 1) => numberFormat(maximumFractionDigits).format(value),
+    percent: (share) => percents.format(share),
+    degrees: (value, unit) => temps[unit].format(value),
+    temp: (f, unit, step = UNIT_STEP[unit]) => temps[unit].format(snap(toUnit(f, unit), step)),
+    time: (time) => {
+      const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+      return match ? times.format(new Date(2000, 0, 1, Number(match[1]), Number(match[2]))) : time;
+    },
+    clock: (t) => times.format(t),
+    // 2 January 2000 was a Sunday.
+    weekday: (day) => weekdays.format(new Date(2000, 0, 2 + day)),
+  };
+}
@@ -0,0 +1,141 @@
+import { timeToMinutes, Weekday, WEEKDAYS } from './schedule';
+import { formatTemp, TempUnit } from './temperature';
+import { BedState, SIDES } from './zone';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+const BYDAY: Record<Weekday, string> = { 0: 'SU', 1: 'MO', 2: 'TU', 3: 'WE', 4: 'TH', 5: 'FR', 6: 'SA' };
+
+/** First Sunday of 2024; events start in that week and repeat from there. */
+const ANCHOR = { year: 2024, month: 1, day: 7 };
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+/** Floating local date-time on `day` of the anchor week, `minutes` after midnight. */
+const localDateTime = (day: number, minutes: number) => {
+  const date = new Date(Date.UTC(ANCHOR.year, ANCHOR.month - 1, ANCHOR.day + day));
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(
+    Math.floor(minutes / 60),
+  )}${pad(minutes % 60)}00`;
+};
+
+const utcDateTime = (t: number) => new Date(t).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+/** Escapes a TEXT value (RFC 5545 §3.3.11). */
+const text = (value: string) => value.replace(/[\\;,]/g, (c) => `\\${c}`).replace(/\r?\n/g, '\\n');
+
+/** Folds a content line to at most 75 octets per line (RFC 5545 §3.1). */
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward their 75 octets.
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** One VEVENT, from its properties in order. */
+const event = (properties: [string, string][]) => [
+  'BEGIN:VEVENT',
+  ...properties.map(([name, value]) => `${name}:${value}`),
+  'END:VEVENT',
+];
+
+/**
+ * Sleep programs and wake alarms of a bed as an iCalendar feed. Each program
+ * segment becomes a weekly event lasting until the next setpoint, with the
+ * weekdays sharing the same segment merged into one `RRULE`. Times are
+ * floating, so calendar apps show them at the bed's local time. Temperatures
+ * in summaries use `unit`; `X-BED-TEMP` always holds Fahrenheit.
+ */
+export function scheduleCalendar(
+  bed: BedState,
+  { bedId, name, unit, now = Date.now() }: { bedId: string; name: string; unit: TempUnit; now?: number },
+): string {
+  const stamp = utcDateTime(now);
+  const events: string[] = [];
+
+  for (const side of SIDES) {
+    const sideName = bed.sideNames[side];
+    const schedule = bed.zones[side].schedule;
+    const timeline = WEEKDAYS.flatMap((day) =>
+      (schedule?.program?.[day] ?? []).map((setpoint) => ({
+        ...setpoint,
+        day,
+        at: day * MINUTES_PER_DAY + timeToMinutes(setpoint.time),
+      })),
+    ).sort((a, b) => a.at - b.at);
+
+    // Each segment lasts until the next setpoint, wrapping around the week.
+    const segments = new Map<string, { days: Weekday[]; time: string; temp: number; label?: string; minutes: number }>();
+    timeline.forEach((setpoint, i) => {
+      const next = timeline[(i + 1) % timeline.length];
+      const minutes = (next.at - setpoint.at + MINUTES_PER_WEEK) % MINUTES_PER_WEEK || MINUTES_PER_WEEK;
+      const key = JSON.stringify([setpoint.time, setpoint.temp, setpoint.label, minutes]);
+      const segment = segments.get(key);
+      if (segment) segment.days.push(setpoint.day);
+      else segments.set(key, { ...setpoint, days: [setpoint.day], minutes });
+    });
+
+    const paused = schedule?.running ? '' : ' (paused)';
+    [...segments.values()].forEach(({ days, time, temp, label, minutes }) => {
+      events.push(
+        ...event([
+          ['UID', `${bedId}-${side}-program-${days.join('')}-${time.replace(':', '')}@bed-zones`],
+          ['DTSTAMP', stamp],
+          ['DTSTART', localDateTime(days[0], timeToMinutes(time))],
+          ['DURATION', `PT${minutes}M`],
+          ['RRULE', `FREQ=WEEKLY;BYDAY=${days.map((d) => BYDAY[d]).join(',')}`],
+          ['SUMMARY', text(`${sideName}: ${label ?? 'Program'} · ${formatTemp(temp, unit)}${paused}`)],
+          ['TRANSP', 'TRANSPARENT'],
+          ['X-BED-SIDE', side],
+          ['X-BED-TEMP', String(temp)],
+        ]),
+      );
+    });
+
+    const wake = schedule?.wake;
+    if (wake?.enabled) {
+      // The event covers the ramp, ending at the wake time.
+      const start = (timeToMinutes(wake.time) - wake.rampMinutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+      events.push(
+        ...event([
+          ['UID', `${bedId}-${side}-wake@bed-zones`],
+          ['DTSTAMP', stamp],
+          ['DTSTART', localDateTime(0, start)],
+          ['DURATION', `PT${Math.max(1, wake.rampMinutes)}M`],
+          ['RRULE', 'FREQ=DAILY'],
+          ['SUMMARY', text(`${sideName}: Wake-up · ${formatTemp(wake.temp, unit)}`)],
+          ['TRANSP', 'TRANSPARENT'],
+          ['X-BED-SIDE', side],
+          ['X-BED-TEMP', String(wake.temp)],
+        ]),
+      );
+    }
+  }
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Bed Zones//Sleep programs//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${text(`${name} sleep programs`)}`,
+    ...events,
+    'END:VCALENDAR',
+  ]
+    .map(fold)
+    .join('\r\n')
+    .concat('\r\n');
+}
@@ -0,0 +1,209 @@
+import type { DemoMessages, ZoneMessages } from '.';
+
+export const de: ZoneMessages = {
+  zoneNames: {
+    bed: 'Bett',
+    left: 'Links',
+    right: 'Rechts',
+    'left-head': 'Kopfende links',
+    'right-head': 'Kopfende rechts',
+    'left-foot': 'Fußende links',
+    'right-foot': 'Fußende rechts',
+  },
+  zoneNouns: { zone: 'Zone', side: 'Seite' },
+  modes: { off: 'aus', cool: 'kühlen', heat: 'heizen' },
+  faults: {
+    offline: {
+      label: 'Offline',
+      description:
+        'Die Bettsteuerung antwortet nicht. Prüfe, ob das Bett eingesteckt und verbunden ist.',
+    },
+    sensor_failure: {
+      label: 'Sensorfehler',
+      description:
+        'Der Temperatursensor dieser Zone ist ausgefallen, ihrem Messwert ist nicht zu trauen.',
+    },
+    low_water: {
+      label: 'Wenig Wasser',
+      description: 'Der Wassertank ist fast leer. Fülle ihn auf, um wieder zu heizen und zu kühlen.',
+    },
+  },
+  safetyRules: {
+    auto_off: { label: 'Abschaltung', description: 'vom Abschalt-Timer ausgeschaltet' },
+    max_heat: {
+      label: 'Heizlimit',
+      description: 'nach zu langem Heizen auf die sichere Temperatur gesenkt',
+    },
+    max_temp: { label: 'Höchsttemp.', description: 'auf die Höchsttemperatur begrenzt' },
+  },
+  bedZones: (linked) => (linked ? 'Bettzonen, verbunden' : 'Bettzonen'),
+  zoneLabel: (name, noun, mode) => `${noun} ${name}: ${mode}`,
+  editing: 'wird bearbeitet',
+  occupied: 'belegt',
+  empty: 'leer',
+  offWhileEmpty: 'Aus, solange leer',
+  turnsOffIn: (minutes) => `schaltet in ${minutes} Min. ab`,
+  wakeAlarmAt: (time) => `Weckzeit ${time}`,
+  offIn: (minutes) => `Aus in ${minutes} Min.`,
+  waking: (time) => `Wecken · ${time}`,
+  program: 'Programm',
+  scheduleRunning: 'Zeitplan läuft',
+  startsAt: (when) => `Beginnt ${when}`,
+  next: (when, temp) => `Nächste ${when} · ${temp}`,
+  dayAndTime: (day, time) => `${day} ${time}`,
+  setTo: (target) => `Auf ${target}`,
+  maintaining: (target) => `Hält ${target}`,
+  coolingTo: (target) => `Kühlt auf ${target}`,
+  heatingTo: (target) => `Heizt auf ${target}`,
+  level: (level) => `Stufe ${level}`,
+  targetChanged: (name, target) => `Ziel ${name} ${target}`,
+  unlocked: 'Entsperrt',
+  keepHoldingToUnlock: 'Zum Entsperren weiter halten…',
+  childLockOn: 'Kindersicherung an · Zone gedrückt halten zum Entsperren',
+  targetTemperature: 'Zieltemperatur',
+  dialStatus: { off: 'Aus', maintaining: 'Hält', heating: 'Heizt', cooling: 'Kühlt' },
+  sensed: (temp) => `Jetzt ${temp}`,
+  noReadings: 'Noch keine Messwerte in diesem Zeitraum',
+  temperatureHistory: (name) => `Temperaturverlauf ${name}`,
+  chartLegend: 'Durchgezogen: gemessen · Gestrichelt: Ziel',
+};
+
+const nights = (count: number) => `${count} ${count === 1 ? 'Nacht' : 'Nächte'}`;
+
+export const deDemo: DemoMessages = {
+  pages: { home: 'Start', schedule: 'Zeitplan', history: 'Verlauf', settings: 'Einstellungen' },
+  beds: 'Betten',
+  allBeds: 'Alle Betten',
+  controllerUnavailable: 'Steuerung nicht erreichbar',
+  offline: 'Offline',
+  offAt: (temp) => `Aus, ${temp}`,
+  minutes: (count) => `${count} Min.`,
+  hours: (count) => `${count} Std.`,
+
+  changeRejected: (reason) => `Änderung abgelehnt: ${reason}`,
+  replacedByOtherDevice: (name) => `Deine Änderung an ${name} wurde von einem anderen Gerät ersetzt`,
+  turnedOffWhileEmpty: (name) => `${name} wurde ausgeschaltet, weil die Seite leer war`,
+  changedBySafety: (name, change) => `${name} wurde ${change}`,
+  importedSettings: (file) => `Einstellungen aus ${file} importiert`,
+  notJson: (file) => `${file} ist kein gültiges JSON`,
+  importedReadings: (count, file) => `${count} Messwerte aus ${file} importiert`,
+  changesToReview: (count) => `${count} ${count === 1 ? 'Änderung' : 'Änderungen'} zu prüfen`,
+  importFailed: (reason) => `Import fehlgeschlagen: ${reason}`,
+
+  linkSides: 'Seiten verbinden',
+  linkOffset: (name, unit) => `Versatz ${name} (${unit})`,
+  untitled: 'Ohne Namen',
+  sideControls: 'Steuerung der Bettseiten',
+  turnOn: (name) => `${name} einschalten`,
+  turnOff: (name) => `${name} ausschalten`,
+  undo: 'Rückgängig',
+  undoChange: (change) => `Rückgängig: ${change}`,
+  sideTarget: (name) => `Zieltemperatur ${name}`,
+  autoOff: 'Abschaltung',
+  off: 'Aus',
+  autoOffAt: (time) => `Um ${time}`,
+  autoOffIn: (duration) => `In ${duration}`,
+  recentChanges: (name) => `Letzte Änderungen an ${name}`,
+  noChanges: 'Noch keine Änderungen',
+  commandStatuses: {
+    pending: 'Wird gesendet',
+    applied: 'Übernommen',
+    rejected: 'Abgelehnt',
+    undone: 'Rückgängig gemacht',
+  },
+  automations: { program: 'Programm', sleep_timer: 'Einschlaf-Timer', wake: 'Wecken' },
+  turnedOff: 'Ausgeschaltet',
+  turnedOn: (mode) => `Eingeschaltet (${mode})`,
+  switchedTo: (mode) => `Auf ${mode} umgestellt`,
+  target: (temp) => `Ziel ${temp}`,
+  targetChange: (from, to) => `Ziel ${from} → ${to}`,
+  scheduleChanged: 'Zeitplan geändert',
+  noChange: 'Keine Änderung',
+  undone: (change) => `Rückgängig: ${change}`,
+
+  historyRange: 'Zeitraum des Verlaufs',
+  historyRanges: { hour: 'Letzte Stunde', night: 'Letzte Nacht', week: '7 Tage' },
+
+  temperatureDisplay: 'Temperaturanzeige',
+  comfortLevel: 'Komfortstufe',
+  colorScheme: 'Farbschema',
+  themeModes: { light: 'Hell', dark: 'Dunkel', system: 'System' },
+  language: 'Sprache',
+  timeFormat: 'Zeitformat',
+  hourCycles: { auto: 'Automatisch', '12h': '12 Stunden', '24h': '24 Stunden' },
+  sideNameLabels: { left: 'Name links', right: 'Name rechts' },
+  presets: 'Voreinstellungen',
+  presetName: 'Name',
+  newPresetName: (number) => `Voreinstellung ${number}`,
+  movePresetUp: (name) => `${name} nach oben`,
+  movePresetDown: (name) => `${name} nach unten`,
+  deletePreset: (name) => `${name} löschen`,
+  capture: 'Übernehmen von',
+  bothSides: 'Beide Seiten',
+  sideOnly: (name) => `Nur ${name}`,
+  saveCurrent: 'Aktuelle speichern',
+  presence: 'Anwesenheit',
+  turnOffWhenEmpty: (name) => `${name} ausschalten, wenn leer seit`,
+  never: 'Nie',
+  resumeOnReturn: 'Fortsetzen, wenn sich jemand hinlegt',
+  safety: 'Sicherheit',
+  maxTemp: (unit) => `Höchsttemperatur (${unit})`,
+  maxHeatTime: 'Maximale Heizdauer',
+  noLimit: 'Keine Grenze',
+  safeTemp: (unit) => `Sichere Temperatur nach der Grenze (${unit})`,
+  childLock: 'Kindersicherung',
+  unlockHint: 'Halte das Bett auf der Startseite gedrückt, um zu entsperren.',
+  importExport: 'Import und Export',
+  importExportHint:
+    'Übertrage Seitennamen, Einheit und Zeitpläne auf ein anderes Bett oder folge den Schlafprogrammen in einer ' +
+    'Kalender-App.',
+  export: 'Exportieren',
+  import: 'Importieren',
+  calendar: 'Kalender',
+
+  scheduleControls: 'Steuerung der Zeitpläne',
+  programDay: 'Programmtag',
+  noSetpoints: (day) => `Keine Sollwerte am ${day}`,
+  time: 'Zeit',
+  label: 'Bezeichnung',
+  removeSetpoint: 'Sollwert entfernen',
+  addSetpoint: 'Sollwert hinzufügen',
+  useSampleNight: 'Beispielnacht verwenden',
+  copyToEveryDay: 'Auf alle Tage kopieren',
+  wakeUp: 'Wecken',
+  wakeByTemperature: 'Mit Temperatur wecken',
+  wakeAt: 'Wecken um',
+  ramp: 'Anstieg',
+  sleepTimer: 'Einschlaf-Timer',
+  coolingUntil: (time) => `Kühlt bis ${time}, dann aus`,
+  cancel: 'Abbrechen',
+  coolFor: 'Kühlen für',
+  start: 'Starten',
+  autopilot: 'Autopilot',
+  autopilotHint:
+    'Importiere Schlafdaten eines Wearables als CSV oder JSON. Der Autopilot lernt, bei welchen Temperaturen du ' +
+    'tiefer geschlafen hast, und verschiebt die Sollwerte des Programms Nacht für Nacht ein wenig dorthin.',
+  autopilotModes: { off: 'Aus', suggest: 'Änderungen vorschlagen', auto: 'Automatisch anpassen' },
+  importSleepData: 'Schlafdaten importieren',
+  noSleepData: 'Noch keine Schlafdaten',
+  nightsOfData: (count) => `Daten aus ${count} ${count === 1 ? 'Nacht' : 'Nächten'}`,
+  noSuggestions: 'Noch keine Änderungen vorzuschlagen',
+  everyDay: 'Jeden Tag',
+  recommendationStatuses: {
+    proposed: 'Vorgeschlagen',
+    applied: 'Automatisch übernommen',
+    accepted: 'Angenommen',
+    rejected: 'Abgelehnt',
+  },
+  reject: 'Ablehnen',
+  keep: 'Behalten',
+  accept: 'Annehmen',
+  explanations: {
+    deep: (best, current, count) =>
+      `Tiefschlaf machte ${best.value} von ${best.duration} um ${best.temp} aus, gegenüber ${current.value} von ` +
+      `${current.duration} um ${current.temp}, über ${nights(count)}.`,
+    heartRate: (best, current, count) =>
+      `Der Puls lag bei ${best.value} Schlägen pro Minute während ${best.duration} um ${best.temp}, gegenüber ` +
+      `${current.value} während ${current.duration} um ${current.temp}, über ${nights(count)}.`,
+  },
+};
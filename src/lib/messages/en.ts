@@ -0,0 +1,198 @@
+import type { DemoMessages, ZoneMessages } from '.';
+
+export const en: ZoneMessages = {
+  zoneNames: {
+    bed: 'Bed',
+    left: 'Left',
+    right: 'Right',
+    'left-head': 'Left head',
+    'right-head': 'Right head',
+    'left-foot': 'Left foot',
+    'right-foot': 'Right foot',
+  },
+  zoneNouns: { zone: 'zone', side: 'side' },
+  modes: { off: 'off', cool: 'cool', heat: 'heat' },
+  faults: {
+    offline: {
+      label: 'Offline',
+      description: "The bed controller isn't responding. Check that the bed is plugged in and connected.",
+    },
+    sensor_failure: {
+      label: 'Sensor fault',
+      description: "This zone's temperature sensor has failed, so its reading can't be trusted.",
+    },
+    low_water: {
+      label: 'Low water',
+      description: 'The water reservoir is low. Refill it to resume heating and cooling.',
+    },
+  },
+  safetyRules: {
+    auto_off: { label: 'Auto-off', description: 'turned off by its auto-off timer' },
+    max_heat: { label: 'Heat limit', description: 'lowered to the safe temperature after heating too long' },
+    max_temp: { label: 'Max temp', description: 'capped at the maximum temperature' },
+  },
+  bedZones: (linked) => (linked ? 'Bed zones, linked' : 'Bed zones'),
+  zoneLabel: (name, noun, mode) => `${name} ${noun}: ${mode}`,
+  editing: 'editing',
+  occupied: 'occupied',
+  empty: 'empty',
+  offWhileEmpty: 'Off while empty',
+  turnsOffIn: (minutes) => `turns off in ${minutes} min`,
+  wakeAlarmAt: (time) => `wake alarm at ${time}`,
+  offIn: (minutes) => `Off in ${minutes} min`,
+  waking: (time) => `Waking · ${time}`,
+  program: 'Program',
+  scheduleRunning: 'Schedule running',
+  startsAt: (when) => `Starts at ${when}`,
+  next: (when, temp) => `Next ${when} · ${temp}`,
+  dayAndTime: (day, time) => `${day} ${time}`,
+  setTo: (target) => `Set to ${target}`,
+  maintaining: (target) => `Maintaining ${target}`,
+  coolingTo: (target) => `Cooling to ${target}`,
+  heatingTo: (target) => `Heating to ${target}`,
+  level: (level) => `level ${level}`,
+  targetChanged: (name, target) => `${name} target ${target}`,
+  unlocked: 'Unlocked',
+  keepHoldingToUnlock: 'Keep holding to unlock…',
+  childLockOn: 'Child lock on · press and hold a zone to unlock',
+  targetTemperature: 'Target temperature',
+  dialStatus: { off: 'Off', maintaining: 'Maintaining', heating: 'Heating', cooling: 'Cooling' },
+  sensed: (temp) => `Now ${temp}`,
+  noReadings: 'No readings in this range yet',
+  temperatureHistory: (name) => `${name} temperature history`,
+  chartLegend: 'Solid: sensed · Dashed: target',
+};
+
+const nights = (count: number) => `${count} ${count === 1 ? 'night' : 'nights'}`;
+
+export const enDemo: DemoMessages = {
+  pages: { home: 'Home', schedule: 'Schedule', history: 'History', settings: 'Settings' },
+  beds: 'Beds',
+  allBeds: 'All beds',
+  controllerUnavailable: 'Controller unavailable',
+  offline: 'Offline',
+  offAt: (temp) => `Off, ${temp}`,
+  minutes: (count) => `${count} min`,
+  hours: (count) => `${count} h`,
+
+  changeRejected: (reason) => `Change rejected: ${reason}`,
+  replacedByOtherDevice: (name) => `Your change to ${name} was replaced by another device`,
+  turnedOffWhileEmpty: (name) => `${name} was turned off because it was empty`,
+  changedBySafety: (name, change) => `${name} was ${change}`,
+  importedSettings: (file) => `Imported settings from ${file}`,
+  notJson: (file) => `${file} is not valid JSON`,
+  importedReadings: (count, file) => `Imported ${count} readings from ${file}`,
+  changesToReview: (count) => `${count} ${count === 1 ? 'change' : 'changes'} to review`,
+  importFailed: (reason) => `Import failed: ${reason}`,
+
+  linkSides: 'Link sides',
+  linkOffset: (name, unit) => `${name} offset (${unit})`,
+  untitled: 'Untitled',
+  sideControls: 'bed side controls',
+  turnOn: (name) => `Turn ${name} on`,
+  turnOff: (name) => `Turn ${name} off`,
+  undo: 'Undo',
+  undoChange: (change) => `Undo ${change}`,
+  sideTarget: (name) => `${name} target temperature`,
+  autoOff: 'Auto-off',
+  off: 'Off',
+  autoOffAt: (time) => `At ${time}`,
+  autoOffIn: (duration) => `In ${duration}`,
+  recentChanges: (name) => `Recent changes to ${name}`,
+  noChanges: 'No changes yet',
+  commandStatuses: { pending: 'Sending', applied: 'Applied', rejected: 'Rejected', undone: 'Undone' },
+  automations: { program: 'Program', sleep_timer: 'Sleep timer', wake: 'Wake-up' },
+  turnedOff: 'Turned off',
+  turnedOn: (mode) => `Turned on (${mode})`,
+  switchedTo: (mode) => `Switched to ${mode}`,
+  target: (temp) => `Target ${temp}`,
+  targetChange: (from, to) => `Target ${from} → ${to}`,
+  scheduleChanged: 'Schedule changed',
+  noChange: 'No change',
+  undone: (change) => `Undo: ${change}`,
+
+  historyRange: 'history range',
+  historyRanges: { hour: 'Last hour', night: 'Last night', week: '7 days' },
+
+  temperatureDisplay: 'temperature display',
+  comfortLevel: 'Comfort level',
+  colorScheme: 'color scheme',
+  themeModes: { light: 'Light', dark: 'Dark', system: 'System' },
+  language: 'Language',
+  timeFormat: 'time format',
+  hourCycles: { auto: 'Automatic', '12h': '12-hour', '24h': '24-hour' },
+  sideNameLabels: { left: 'Left name', right: 'Right name' },
+  presets: 'Presets',
+  presetName: 'Name',
+  newPresetName: (number) => `Preset ${number}`,
+  movePresetUp: (name) => `move ${name} up`,
+  movePresetDown: (name) => `move ${name} down`,
+  deletePreset: (name) => `delete ${name}`,
+  capture: 'Capture',
+  bothSides: 'Both sides',
+  sideOnly: (name) => `${name} only`,
+  saveCurrent: 'Save current',
+  presence: 'Presence',
+  turnOffWhenEmpty: (name) => `Turn ${name} off when empty for`,
+  never: 'Never',
+  resumeOnReturn: 'Resume when someone lies down',
+  safety: 'Safety',
+  maxTemp: (unit) => `Maximum temperature (${unit})`,
+  maxHeatTime: 'Maximum heating time',
+  noLimit: 'No limit',
+  safeTemp: (unit) => `Safe temperature after the limit (${unit})`,
+  childLock: 'Child lock',
+  unlockHint: 'Press and hold the bed on the Home page to unlock.',
+  importExport: 'Import and export',
+  importExportHint:
+    'Copy side names, unit and schedules to another bed, or follow the sleep programs in a calendar app.',
+  export: 'Export',
+  import: 'Import',
+  calendar: 'Calendar',
+
+  scheduleControls: 'schedule controls',
+  programDay: 'program day',
+  noSetpoints: (day) => `No setpoints on ${day}`,
+  time: 'Time',
+  label: 'Label',
+  removeSetpoint: 'remove setpoint',
+  addSetpoint: 'Add setpoint',
+  useSampleNight: 'Use sample night',
+  copyToEveryDay: 'Copy to every day',
+  wakeUp: 'Wake-up',
+  wakeByTemperature: 'Wake by temperature',
+  wakeAt: 'Wake at',
+  ramp: 'Ramp',
+  sleepTimer: 'Sleep timer',
+  coolingUntil: (time) => `Cooling until ${time}, then off`,
+  cancel: 'Cancel',
+  coolFor: 'Cool for',
+  start: 'Start',
+  autopilot: 'Autopilot',
+  autopilotHint:
+    'Import sleep exports from a wearable as CSV or JSON. The autopilot learns which temperatures went with ' +
+    "deeper sleep and moves the program's setpoints toward them, a little each night.",
+  autopilotModes: { off: 'Off', suggest: 'Suggest changes', auto: 'Adjust automatically' },
+  importSleepData: 'Import sleep data',
+  noSleepData: 'No sleep data yet',
+  nightsOfData: (count) => `${nights(count)} of data`,
+  noSuggestions: 'No changes to suggest yet',
+  everyDay: 'Every day',
+  recommendationStatuses: {
+    proposed: 'Suggested',
+    applied: 'Applied automatically',
+    accepted: 'Accepted',
+    rejected: 'Rejected',
+  },
+  reject: 'Reject',
+  keep: 'Keep',
+  accept: 'Accept',
+  explanations: {
+    deep: (best, current, count) =>
+      `Deep sleep made up ${best.value} of ${best.duration} around ${best.temp} against ${current.value} of ` +
+      `${current.duration} around ${current.temp}, over ${nights(count)}.`,
+    heartRate: (best, current, count) =>
+      `Heart rate averaged ${best.value} bpm during ${best.duration} around ${best.temp} against ` +
+      `${current.value} bpm during ${current.duration} around ${current.temp}, over ${nights(count)}.`,
+  },
+};
@@ -0,0 +1,204 @@
+import type { DemoMessages, ZoneMessages } from '.';
+
+export const es: ZoneMessages = {
+  zoneNames: {
+    bed: 'Cama',
+    left: 'Izquierda',
+    right: 'Derecha',
+    'left-head': 'Cabecera izquierda',
+    'right-head': 'Cabecera derecha',
+    'left-foot': 'Pies izquierda',
+    'right-foot': 'Pies derecha',
+  },
+  zoneNouns: { zone: 'zona', side: 'lado' },
+  modes: { off: 'apagado', cool: 'enfriar', heat: 'calentar' },
+  faults: {
+    offline: {
+      label: 'Sin conexión',
+      description:
+        'El controlador de la cama no responde. Comprueba que la cama esté enchufada y conectada.',
+    },
+    sensor_failure: {
+      label: 'Fallo del sensor',
+      description:
+        'El sensor de temperatura de esta zona ha fallado, así que su lectura no es fiable.',
+    },
+    low_water: {
+      label: 'Poca agua',
+      description: 'El depósito de agua está bajo. Rellénalo para volver a calentar y enfriar.',
+    },
+  },
+  safetyRules: {
+    auto_off: { label: 'Apagado auto.', description: 'apagado por su temporizador' },
+    max_heat: {
+      label: 'Límite de calor',
+      description: 'bajado a la temperatura segura tras calentar demasiado tiempo',
+    },
+    max_temp: { label: 'Temp. máx.', description: 'limitado a la temperatura máxima' },
+  },
+  bedZones: (linked) => (linked ? 'Zonas de la cama, enlazadas' : 'Zonas de la cama'),
+  zoneLabel: (name, noun, mode) => `${noun} ${name}: ${mode}`,
+  editing: 'en edición',
+  occupied: 'ocupado',
+  empty: 'vacío',
+  offWhileEmpty: 'Apagado mientras está vacío',
+  turnsOffIn: (minutes) => `se apaga en ${minutes} min`,
+  wakeAlarmAt: (time) => `alarma a las ${time}`,
+  offIn: (minutes) => `Apagado en ${minutes} min`,
+  waking: (time) => `Despertando · ${time}`,
+  program: 'Programa',
+  scheduleRunning: 'Horario activo',
+  startsAt: (when) => `Empieza ${when}`,
+  next: (when, temp) => `Siguiente ${when} · ${temp}`,
+  dayAndTime: (day, time) => `${day} ${time}`,
+  setTo: (target) => `Fijar en ${target}`,
+  maintaining: (target) => `Manteniendo ${target}`,
+  coolingTo: (target) => `Enfriando a ${target}`,
+  heatingTo: (target) => `Calentando a ${target}`,
+  level: (level) => `nivel ${level}`,
+  targetChanged: (name, target) => `${name}: objetivo ${target}`,
+  unlocked: 'Desbloqueado',
+  keepHoldingToUnlock: 'Sigue pulsando para desbloquear…',
+  childLockOn: 'Bloqueo infantil activo · mantén pulsada una zona para desbloquear',
+  targetTemperature: 'Temperatura objetivo',
+  dialStatus: { off: 'Apagado', maintaining: 'Manteniendo', heating: 'Calentando', cooling: 'Enfriando' },
+  sensed: (temp) => `Ahora ${temp}`,
+  noReadings: 'Aún no hay lecturas en este periodo',
+  temperatureHistory: (name) => `Historial de temperatura de ${name}`,
+  chartLegend: 'Continua: medida · Discontinua: objetivo',
+};
+
+const nights = (count: number) => `${count} ${count === 1 ? 'noche' : 'noches'}`;
+
+export const esDemo: DemoMessages = {
+  pages: { home: 'Inicio', schedule: 'Horario', history: 'Historial', settings: 'Ajustes' },
+  beds: 'Camas',
+  allBeds: 'Todas las camas',
+  controllerUnavailable: 'Controlador no disponible',
+  offline: 'Sin conexión',
+  offAt: (temp) => `Apagado, ${temp}`,
+  minutes: (count) => `${count} min`,
+  hours: (count) => `${count} h`,
+
+  changeRejected: (reason) => `Cambio rechazado: ${reason}`,
+  replacedByOtherDevice: (name) => `Otro dispositivo reemplazó tu cambio en ${name}`,
+  turnedOffWhileEmpty: (name) => `${name} se apagó porque estaba vacío`,
+  changedBySafety: (name, change) => `${name} fue ${change}`,
+  importedSettings: (file) => `Ajustes importados de ${file}`,
+  notJson: (file) => `${file} no es un JSON válido`,
+  importedReadings: (count, file) => `${count} lecturas importadas de ${file}`,
+  changesToReview: (count) => `${count} ${count === 1 ? 'cambio' : 'cambios'} por revisar`,
+  importFailed: (reason) => `Error al importar: ${reason}`,
+
+  linkSides: 'Enlazar lados',
+  linkOffset: (name, unit) => `Diferencia de ${name} (${unit})`,
+  untitled: 'Sin nombre',
+  sideControls: 'controles de los lados de la cama',
+  turnOn: (name) => `Encender ${name}`,
+  turnOff: (name) => `Apagar ${name}`,
+  undo: 'Deshacer',
+  undoChange: (change) => `Deshacer: ${change}`,
+  sideTarget: (name) => `Temperatura objetivo de ${name}`,
+  autoOff: 'Apagado automático',
+  off: 'No',
+  autoOffAt: (time) => `A las ${time}`,
+  autoOffIn: (duration) => `En ${duration}`,
+  recentChanges: (name) => `Cambios recientes en ${name}`,
+  noChanges: 'Aún no hay cambios',
+  commandStatuses: { pending: 'Enviando', applied: 'Aplicado', rejected: 'Rechazado', undone: 'Deshecho' },
+  automations: { program: 'Programa', sleep_timer: 'Temporizador de sueño', wake: 'Despertar' },
+  turnedOff: 'Apagado',
+  turnedOn: (mode) => `Encendido (${mode})`,
+  switchedTo: (mode) => `Cambiado a ${mode}`,
+  target: (temp) => `Objetivo ${temp}`,
+  targetChange: (from, to) => `Objetivo ${from} → ${to}`,
+  scheduleChanged: 'Horario cambiado',
+  noChange: 'Sin cambios',
+  undone: (change) => `Deshacer: ${change}`,
+
+  historyRange: 'periodo del historial',
+  historyRanges: { hour: 'Última hora', night: 'Anoche', week: '7 días' },
+
+  temperatureDisplay: 'indicación de temperatura',
+  comfortLevel: 'Nivel de confort',
+  colorScheme: 'esquema de color',
+  themeModes: { light: 'Claro', dark: 'Oscuro', system: 'Sistema' },
+  language: 'Idioma',
+  timeFormat: 'formato de hora',
+  hourCycles: { auto: 'Automático', '12h': '12 horas', '24h': '24 horas' },
+  sideNameLabels: { left: 'Nombre izquierdo', right: 'Nombre derecho' },
+  presets: 'Preajustes',
+  presetName: 'Nombre',
+  newPresetName: (number) => `Preajuste ${number}`,
+  movePresetUp: (name) => `subir ${name}`,
+  movePresetDown: (name) => `bajar ${name}`,
+  deletePreset: (name) => `eliminar ${name}`,
+  capture: 'Guardar',
+  bothSides: 'Ambos lados',
+  sideOnly: (name) => `Solo ${name}`,
+  saveCurrent: 'Guardar actual',
+  presence: 'Presencia',
+  turnOffWhenEmpty: (name) => `Apagar ${name} si está vacío durante`,
+  never: 'Nunca',
+  resumeOnReturn: 'Reanudar cuando alguien se acueste',
+  safety: 'Seguridad',
+  maxTemp: (unit) => `Temperatura máxima (${unit})`,
+  maxHeatTime: 'Tiempo máximo de calor',
+  noLimit: 'Sin límite',
+  safeTemp: (unit) => `Temperatura segura tras el límite (${unit})`,
+  childLock: 'Bloqueo infantil',
+  unlockHint: 'Mantén pulsada la cama en la página de inicio para desbloquear.',
+  importExport: 'Importar y exportar',
+  importExportHint:
+    'Copia los nombres de los lados, la unidad y los horarios a otra cama, o sigue los programas de sueño en una ' +
+    'app de calendario.',
+  export: 'Exportar',
+  import: 'Importar',
+  calendar: 'Calendario',
+
+  scheduleControls: 'controles del horario',
+  programDay: 'día del programa',
+  noSetpoints: (day) => `No hay puntos de ajuste el ${day}`,
+  time: 'Hora',
+  label: 'Etiqueta',
+  removeSetpoint: 'quitar punto de ajuste',
+  addSetpoint: 'Añadir punto de ajuste',
+  useSampleNight: 'Usar noche de ejemplo',
+  copyToEveryDay: 'Copiar a todos los días',
+  wakeUp: 'Despertar',
+  wakeByTemperature: 'Despertar con temperatura',
+  wakeAt: 'Despertar a las',
+  ramp: 'Rampa',
+  sleepTimer: 'Temporizador de sueño',
+  coolingUntil: (time) => `Enfriando hasta las ${time}, luego apagado`,
+  cancel: 'Cancelar',
+  coolFor: 'Enfriar durante',
+  start: 'Iniciar',
+  autopilot: 'Piloto automático',
+  autopilotHint:
+    'Importa datos de sueño de un wearable en CSV o JSON. El piloto automático aprende con qué temperaturas ' +
+    'dormiste más profundo y acerca a ellas los puntos de ajuste del programa, un poco cada noche.',
+  autopilotModes: { off: 'Apagado', suggest: 'Sugerir cambios', auto: 'Ajustar automáticamente' },
+  importSleepData: 'Importar datos de sueño',
+  noSleepData: 'Aún no hay datos de sueño',
+  nightsOfData: (count) => `Datos de ${nights(count)}`,
+  noSuggestions: 'Aún no hay cambios que sugerir',
+  everyDay: 'Todos los días',
+  recommendationStatuses: {
+    proposed: 'Sugerido',
+    applied: 'Aplicado automáticamente',
+    accepted: 'Aceptado',
+    rejected: 'Rechazado',
+  },
+  reject: 'Rechazar',
+  keep: 'Mantener',
+  accept: 'Aceptar',
+  explanations: {
+    deep: (best, current, count) =>
+      `El sueño profundo fue el ${best.value} de ${best.duration} a unos ${best.temp}, frente al ${current.value} ` +
+      `de ${current.duration} a unos ${current.temp}, en ${nights(count)}.`,
+    heartRate: (best, current, count) =>
+      `El pulso medio fue de ${best.value} lpm durante ${best.duration} a unos ${best.temp}, frente a ` +
+      `${current.value} lpm durante ${current.duration} a unos ${current.temp}, en ${nights(count)}.`,
+  },
+};
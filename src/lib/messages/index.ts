@@ -0,0 +1,213 @@
+import type { AutopilotMode, RecommendationStatus, SleepMetric } from '../autopilot';
+import type { CommandStatus } from '../commands';
+import type { ZoneFault } from '../faults';
+import type { HistoryRange } from '../history';
+import { HourCycle, Locale, resolveLocale } from '../i18n';
+import type { BedPage } from '../preferences';
+import type { SafetyRule } from '../safety';
+import type { Automation, Mode, Side } from '../zone';
+import { de, deDemo } from './de';
+import { en, enDemo } from './en';
+import { es, esDemo } from './es';
+
+/** A label with a longer explanation, e.g. for a tooltip. */
+export interface DescribedLabel {
+  label: string;
+  description: string;
+}
+
+/**
+ * Text shown by the bed components. Values that appear inside messages, such
+ * as temperatures and times, are passed in already formatted for the locale.
+ */
+export interface ZoneMessages {
+  /** Default names of the zones of the bundled layouts, by zone id. */
+  zoneNames: Record<string, string>;
+  /** Words used after a zone name in accessible labels, by the layout's `zoneNoun`. */
+  zoneNouns: Record<string, string>;
+  modes: Record<Mode, string>;
+  faults: Record<ZoneFault, DescribedLabel>;
+  /** `description` completes "{zone} was …". */
+  safetyRules: Record<SafetyRule, DescribedLabel>;
+  bedZones: (linked: boolean) => string;
+  zoneLabel: (name: string, noun: string, mode: string) => string;
+  editing: string;
+  occupied: string;
+  empty: string;
+  /** Shown on a zone that presence automation turned off. */
+  offWhileEmpty: string;
+  turnsOffIn: (minutes: string) => string;
+  wakeAlarmAt: (time: string) => string;
+  offIn: (minutes: string) => string;
+  waking: (time: string) => string;
+  program: string;
+  scheduleRunning: string;
+  startsAt: (when: string) => string;
+  next: (when: string, temp: string) => string;
+  /** A day and time, e.g. "Mon 07:00". */
+  dayAndTime: (day: string, time: string) => string;
+  setTo: (target: string) => string;
+  maintaining: (target: string) => string;
+  coolingTo: (target: string) => string;
+  heatingTo: (target: string) => string;
+  level: (level: string) => string;
+  /** Announced after a zone's target was adjusted. */
+  targetChanged: (name: string, target: string) => string;
+  unlocked: string;
+  keepHoldingToUnlock: string;
+  childLockOn: string;
+  /** Accessible name of the thermostat dial. */
+  targetTemperature: string;
+  /** What the thermostat dial shows a zone doing. */
+  dialStatus: Record<'off' | 'maintaining' | 'heating' | 'cooling', string>;
+  /** The sensed temperature on the thermostat dial. */
+  sensed: (temp: string) => string;
+  noReadings: string;
+  temperatureHistory: (name: string) => string;
+  chartLegend: string;
+}
+
+/** Evidence behind a recommendation, formatted for display. */
+export interface EvidenceText {
+  /** Share of deep sleep, or average heart rate in beats per minute. */
+  value: string;
+  /** Time slept around the temperature. */
+  duration: string;
+  temp: string;
+}
+
+/**
+ * Text of the demo's pages. As in `ZoneMessages`, values are passed in
+ * formatted for the locale; counts that pick a plural form are numbers.
+ */
+export interface DemoMessages {
+  pages: Record<BedPage, string>;
+  beds: string;
+  allBeds: string;
+  controllerUnavailable: string;
+  offline: string;
+  /** A side in the bed list that is turned off, with its sensed temperature. */
+  offAt: (temp: string) => string;
+  minutes: (count: string) => string;
+  hours: (count: string) => string;
+
+  changeRejected: (reason: string) => string;
+  replacedByOtherDevice: (name: string) => string;
+  turnedOffWhileEmpty: (name: string) => string;
+  /** `change` is a safety rule's description from `ZoneMessages`. */
+  changedBySafety: (name: string, change: string) => string;
+  importedSettings: (file: string) => string;
+  notJson: (file: string) => string;
+  importedReadings: (count: string, file: string) => string;
+  changesToReview: (count: number) => string;
+  importFailed: (reason: string) => string;
+
+  linkSides: string;
+  linkOffset: (name: string, unit: string) => string;
+  untitled: string;
+  sideControls: string;
+  turnOn: (name: string) => string;
+  turnOff: (name: string) => string;
+  undo: string;
+  /** `change` is a description of a command. */
+  undoChange: (change: string) => string;
+  sideTarget: (name: string) => string;
+  autoOff: string;
+  off: string;
+  autoOffAt: (time: string) => string;
+  autoOffIn: (duration: string) => string;
+  recentChanges: (name: string) => string;
+  noChanges: string;
+  commandStatuses: Record<CommandStatus, string>;
+  automations: Record<Automation, string>;
+  /** Parts of a command's description; modes come from `ZoneMessages`. */
+  turnedOff: string;
+  turnedOn: (mode: string) => string;
+  switchedTo: (mode: string) => string;
+  target: (temp: string) => string;
+  targetChange: (from: string, to: string) => string;
+  scheduleChanged: string;
+  noChange: string;
+  undone: (change: string) => string;
+
+  historyRange: string;
+  historyRanges: Record<HistoryRange, string>;
+
+  temperatureDisplay: string;
+  comfortLevel: string;
+  colorScheme: string;
+  themeModes: Record<'light' | 'dark' | 'system', string>;
+  language: string;
+  timeFormat: string;
+  hourCycles: Record<HourCycle | 'auto', string>;
+  sideNameLabels: Record<Side, string>;
+  presets: string;
+  presetName: string;
+  newPresetName: (number: string) => string;
+  movePresetUp: (name: string) => string;
+  movePresetDown: (name: string) => string;
+  deletePreset: (name: string) => string;
+  capture: string;
+  bothSides: string;
+  sideOnly: (name: string) => string;
+  saveCurrent: string;
+  presence: string;
+  turnOffWhenEmpty: (name: string) => string;
+  never: string;
+  resumeOnReturn: string;
+  safety: string;
+  maxTemp: (unit: string) => string;
+  maxHeatTime: string;
+  noLimit: string;
+  safeTemp: (unit: string) => string;
+  childLock: string;
+  unlockHint: string;
+  importExport: string;
+  importExportHint: string;
+  export: string;
+  import: string;
+  calendar: string;
+
+  scheduleControls: string;
+  programDay: string;
+  noSetpoints: (day: string) => string;
+  time: string;
+  label: string;
+  removeSetpoint: string;
+  addSetpoint: string;
+  useSampleNight: string;
+  copyToEveryDay: string;
+  wakeUp: string;
+  wakeByTemperature: string;
+  wakeAt: string;
+  ramp: string;
+  sleepTimer: string;
+  coolingUntil: (time: string) => string;
+  cancel: string;
+  coolFor: string;
+  start: string;
+  autopilot: string;
+  autopilotHint: string;
+  autopilotModes: Record<AutopilotMode, string>;
+  importSleepData: string;
+  noSleepData: string;
+  nightsOfData: (count: number) => string;
+  noSuggestions: string;
+  everyDay: string;
+  recommendationStatuses: Record<RecommendationStatus, string>;
+  reject: string;
+  keep: string;
+  accept: string;
+  /** The reasoning behind a recommendation, by what it optimizes. */
+  explanations: Record<SleepMetric, (best: EvidenceText, current: EvidenceText, nights: number) => string>;
+}
+
+const CATALOGS: Record<Locale, ZoneMessages> = { en, de, es };
+
+const DEMO_CATALOGS: Record<Locale, DemoMessages> = { en: enDemo, de: deDemo, es: esDemo };
+
+/** The bundled catalog for a BCP 47 tag, falling back to English. */
+export const zoneMessages = (locale: string | undefined): ZoneMessages => CATALOGS[resolveLocale(locale)];
+
+/** The demo's text for a BCP 47 tag, falling back to English. */
+export const demoMessages = (locale: string | undefined): DemoMessages => DEMO_CATALOGS[resolveLocale(locale)];
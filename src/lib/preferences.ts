@@ -0,0 +1,160 @@
+import { DEFAULT_LOCALE, HOUR_CYCLES, HourCycle, Locale, LOCALES } from './i18n';
+import { TEMP_UNITS, TempUnit } from './temperature';
+import { DEFAULT_BED, DEFAULT_BED_ID, Side, SIDES } from './zone';
+
+/**
+ * Choices remembered per bed. `sideNames` mirror the names last seen on the
+ * server so they show up before the bed has loaded.
+ */
+export interface BedPreferences {
+  unit: TempUnit;
+  /** Shows targets as comfort levels instead of degrees. */
+  comfort: boolean;
+  sideNames: Record<Side, string>;
+  editingSide: Side;
+}
+
+/** Pages of a bed, each at `/beds/{bedId}/{page}`; Home is the bed's own URL. */
+export type BedPage = 'home' | 'schedule' | 'history' | 'settings';
+
+export const BED_PAGES: readonly BedPage[] = ['home', 'schedule', 'history', 'settings'];
+
+export const bedPageHref = (bedId: string, page: BedPage) =>
+  `/beds/${encodeURIComponent(bedId)}${page === 'home' ? '' : `/${page}`}`;
+
+/** The bed page open last, where the app reopens. */
+export interface LastVisit {
+  bedId: string;
+  page: BedPage;
+}
+
+/**
+ * Choices remembered per browser. `hourCycle` is `null` to follow the
+ * locale's convention; `beds` are keyed by bed id. `lastVisit` is `null`
+ * until a bed has been opened.
+ */
+export interface Preferences {
+  version: typeof PREFERENCES_VERSION;
+  locale: Locale;
+  hourCycle: HourCycle | null;
+  beds: Record<string, BedPreferences>;
+  lastVisit: LastVisit | null;
+}
+
+/**
+ * Bump when `Preferences` changes shape, and add a migration from the previous
+ * version. Fields added with a fallback, as `lastVisit` was, need no bump.
+ */
+export const PREFERENCES_VERSION = 2;
+
+/**
+ * Color scheme used until the user picks light, dark or system. MUI stores
+ * that choice itself and applies it before hydration.
+ */
+export const DEFAULT_THEME_MODE = 'dark';
+
+/** Cookie holding the preferences, readable by the server so the first render uses them. */
+export const PREFERENCES_COOKIE = 'bed-prefs';
+
+export const DEFAULT_BED_PREFERENCES: BedPreferences = {
+  unit: 'F',
+  comfort: false,
+  sideNames: DEFAULT_BED.sideNames,
+  editingSide: 'left',
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  version: PREFERENCES_VERSION,
+  locale: DEFAULT_LOCALE,
+  hourCycle: null,
+  beds: {},
+  lastVisit: null,
+};
+
+/** The preferences of one bed, or the defaults for a bed not seen before. */
+export const bedPreferences = (preferences: Preferences, bedId: string) =>
+  preferences.beds[bedId] ?? DEFAULT_BED_PREFERENCES;
+
+type Stored = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Stored =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgrades stored preferences one version at a time: the entry for `n` turns
+ * version `n` into version `n + 1`.
+ */
+const MIGRATIONS: Record<number, (stored: Stored) => Stored> = {
+  // Version 1 held the settings of the only bed and its open page.
+  1: ({ unit, comfort, sideNames, editingSide, page }) => ({
+    beds: { [DEFAULT_BED_ID]: { unit, comfort, sideNames, editingSide } },
+    lastVisit: { bedId: DEFAULT_BED_ID, page },
+  }),
+};
+
+/** Brings stored preferences up to the current version, or returns `null` if it can't. */
+function migrate(stored: Stored): Stored | null {
+  let version = stored.version;
+  if (typeof version !== 'number' || version < 1 || version > PREFERENCES_VERSION) return null;
+  for (; version < PREFERENCES_VERSION; version++) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) return null;
+    stored = upgrade(stored);
+  }
+  return stored;
+}
+
+const pick = <T>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+/**
+ * Reads preferences from their stored JSON. Older versions are migrated;
+ * unreadable data, or data from an unknown version, gives the defaults, and
+ * fields that are missing or invalid fall back one by one.
+ */
+export function parsePreferences(raw: string | undefined): Preferences {
+  let parsed: unknown;
+  try {
+    parsed = raw ? JSON.parse(raw) : null;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+  if (!isRecord(parsed)) return DEFAULT_PREFERENCES;
+  const stored = migrate(parsed);
+  if (!stored) return DEFAULT_PREFERENCES;
+
+  const beds = isRecord(stored.beds) ? stored.beds : {};
+  return {
+    version: PREFERENCES_VERSION,
+    locale: pick(stored.locale, LOCALES, DEFAULT_PREFERENCES.locale),
+    hourCycle: pick(stored.hourCycle, HOUR_CYCLES, DEFAULT_PREFERENCES.hourCycle),
+    beds: Object.fromEntries(
+      Object.entries(beds).map(([bedId, bed]) => [bedId, parseBedPreferences(isRecord(bed) ? bed : {})]),
+    ),
+    lastVisit: parseLastVisit(stored.lastVisit),
+  };
+}
+
+function parseLastVisit(stored: unknown): LastVisit | null {
+  if (!isRecord(stored) || typeof stored.bedId !== 'string' || !stored.bedId) return null;
+  return { bedId: stored.bedId, page: pick(stored.page, BED_PAGES, 'home') };
+}
+
+function parseBedPreferences(stored: Stored): BedPreferences {
+  const names = isRecord(stored.sideNames) ? stored.sideNames : {};
+  return {
+    unit: pick(stored.unit, TEMP_UNITS, DEFAULT_BED_PREFERENCES.unit),
+    comfort: typeof stored.comfort === 'boolean' ? stored.comfort : DEFAULT_BED_PREFERENCES.comfort,
+    sideNames: Object.fromEntries(
+      SIDES.map((side) => {
+        const name = names[side];
+        return [side, typeof name === 'string' ? name : DEFAULT_BED_PREFERENCES.sideNames[side]];
+      }),
+    ) as Record<Side, string>,
+    editingSide: pick(stored.editingSide, SIDES, DEFAULT_BED_PREFERENCES.editingSide),
+  };
+}
+
+/** Cookie value storing `preferences` for a year. */
+export const preferencesCookie = (preferences: Preferences) =>
+  `${PREFERENCES_COOKIE}=${encodeURIComponent(JSON.stringify(preferences))}; Path=/; Max-Age=31536000; SameSite=Lax`;
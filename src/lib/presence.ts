@@ -0,0 +1,51 @@
+import type { Mode, ZoneState } from './zone';
+
+/**
+ * Presence automation of one side. A side left empty for `offAfterMinutes` is
+ * turned off; with `resumeOnReturn` it goes back to the mode it had as soon as
+ * someone lies down again.
+ */
+export interface PresenceSettings {
+  /** `null` keeps the side running while it is empty. */
+  offAfterMinutes: number | null;
+  resumeOnReturn: boolean;
+}
+
+export const DEFAULT_PRESENCE: PresenceSettings = { offAfterMinutes: null, resumeOnReturn: true };
+
+/** Longest wait before an empty side is turned off, in minutes. */
+export const MAX_EMPTY_MINUTES = 24 * 60;
+
+/** Record of presence automation turning a zone off. */
+export interface PresencePause {
+  /** Mode the zone ran in before, restored when someone returns. */
+  mode: Mode;
+  /** Milliseconds since the epoch. */
+  at: number;
+}
+
+/**
+ * Checks one zone against its presence settings. `emptySince` is when the
+ * zone was last seen becoming empty. Returns the mode to switch to: `off` for
+ * a zone that has been empty too long, or the paused mode once it is occupied
+ * again.
+ */
+export function checkPresence(
+  zone: ZoneState,
+  settings: PresenceSettings,
+  emptySince: number | undefined,
+  now: number,
+): Mode | null {
+  if (zone.presencePause) {
+    return zone.occupied && settings.resumeOnReturn && zone.mode === 'off' ? zone.presencePause.mode : null;
+  }
+  if (
+    zone.mode === 'off' ||
+    zone.occupied !== false ||
+    settings.offAfterMinutes === null ||
+    emptySince === undefined
+  ) {
+    return null;
+  }
+  return now - emptySince >= settings.offAfterMinutes * 60_000 ? 'off' : null;
+}
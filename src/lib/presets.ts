@@ -0,0 +1,31 @@
+import type { Mode, Side } from './zone';
+
+/** Setting a preset applies to one side. Temperatures are in Fahrenheit. */
+export interface PresetSide {
+  mode: Mode;
+  /** Left unchanged when omitted, e.g. for a preset that only turns a side off. */
+  targetTemp?: number;
+}
+
+/** A named combination of settings for one or both sides, applied in one tap. */
+export interface Preset {
+  id: string;
+  name: string;
+  sides: Partial<Record<Side, PresetSide>>;
+}
+
+/** Most presets a bed keeps. */
+export const MAX_PRESETS = 12;
+
+/** Longest preset name accepted. */
+export const MAX_PRESET_NAME_LENGTH = 40;
+
+export const DEFAULT_PRESETS: Preset[] = [
+  {
+    id: 'both-cool',
+    name: 'Both cool 66°F',
+    sides: { left: { mode: 'cool', targetTemp: 66 }, right: { mode: 'cool', targetTemp: 66 } },
+  },
+  { id: 'warm-left', name: 'Warm up left only', sides: { left: { mode: 'heat', targetTemp: 86 } } },
+  { id: 'all-off', name: 'Everything off', sides: { left: { mode: 'off' }, right: { mode: 'off' } } },
+];
@@ -0,0 +1,57 @@
+import type { ZoneState } from './zone';
+
+/** Rules that may take over a zone from its user. */
+export type SafetyRule = 'auto_off' | 'max_heat' | 'max_temp';
+
+/**
+ * Limits the server enforces on every zone. Temperatures are in Fahrenheit.
+ * `maxTemp` may be set below the controller's ceiling; a zone that heats for
+ * `maxHeatMinutes` without a break drops to `safeTemp`. While `childLock` is
+ * on, clients refuse edits until it is released with a long press.
+ */
+export interface SafetySettings {
+  maxTemp: number;
+  /** `null` lets a zone heat indefinitely. */
+  maxHeatMinutes: number | null;
+  safeTemp: number;
+  childLock: boolean;
+}
+
+/** Record of the last time a rule changed a zone. */
+export interface SafetyIntervention {
+  rule: SafetyRule;
+  /** Milliseconds since the epoch. */
+  at: number;
+}
+
+/** What a rule does to a zone: turn it off or lower its target. */
+export type SafetyAction = { rule: SafetyRule } & ({ mode: 'off' } | { targetTemp: number });
+
+/**
+ * Checks one zone against the safety rules. `heatingSince` is when the zone
+ * last started heating. Returns the first rule that applies, if any.
+ */
+export function checkSafety(
+  zone: ZoneState,
+  settings: SafetySettings,
+  heatingSince: number | undefined,
+  now: number,
+): SafetyAction | null {
+  if (zone.autoOffAt !== undefined && now >= zone.autoOffAt) {
+    return { rule: 'auto_off', mode: 'off' };
+  }
+  if (zone.mode === 'off' || zone.targetTemp === undefined) return null;
+  if (zone.targetTemp > settings.maxTemp) {
+    return { rule: 'max_temp', targetTemp: settings.maxTemp };
+  }
+  if (
+    zone.mode === 'heat' &&
+    settings.maxHeatMinutes !== null &&
+    heatingSince !== undefined &&
+    zone.targetTemp > settings.safeTemp &&
+    now - heatingSince >= settings.maxHeatMinutes * 60_000
+  ) {
+    return { rule: 'max_heat', targetTemp: settings.safeTemp };
+  }
+  return null;
+}
@@ -0,0 +1,185 @@
+/** Day of the week, numbered like `Date.getDay()` (0 = Sunday). */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export const WEEKDAYS: readonly Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+
+/** A single step of a sleep program. */
+export interface Setpoint {
+  /** Time the setpoint takes effect in the bed's time zone, formatted as `HH:MM`. */
+  time: string;
+  /** Target temperature in Fahrenheit. */
+  temp: number;
+  /** Optional name for the segment the setpoint starts, e.g. "Deep sleep". */
+  label?: string;
+}
+
+/**
+ * Setpoints per weekday. A setpoint belongs to the calendar day it fires on,
+ * so a program that starts at 22:00 on Sunday and warms up at 06:00 lists the
+ * wake-up step under Monday.
+ */
+export type WeeklyProgram = Partial<Record<Weekday, Setpoint[]>>;
+
+/**
+ * Wakes a sleeper by temperature: over the `rampMinutes` before `time` the
+ * zone's target moves step by step to `temp`.
+ */
+export interface WakeAlarm {
+  enabled: boolean;
+  /** Wake time in the bed's time zone, formatted as `HH:MM`. */
+  time: string;
+  /** Temperature reached at the wake time, in Fahrenheit. */
+  temp: number;
+  rampMinutes: number;
+}
+
+/** Cools a zone until `endsAt` (milliseconds since the epoch), then turns it off. */
+export interface SleepTimer {
+  endsAt: number;
+}
+
+/**
+ * Schedule configuration for one zone. `running` enables the program;
+ * `nextStart` is the legacy single start time and is only displayed when no
+ * `program` is configured. The wake alarm and sleep timer work whether or not
+ * the program is running.
+ */
+export interface ZoneSchedule {
+  running: boolean;
+  nextStart?: string;
+  program?: WeeklyProgram;
+  wake?: WakeAlarm;
+  sleepTimer?: SleepTimer;
+}
+
+/** A setpoint resolved to the day it belongs to. */
+export interface ScheduledSetpoint extends Setpoint {
+  day: Weekday;
+}
+
+/** Result of evaluating a program at a point in time. */
+export interface ScheduleStatus {
+  /** Setpoint whose segment contains the evaluated time. */
+  active?: ScheduledSetpoint;
+  /** First setpoint after the evaluated time. */
+  next?: ScheduledSetpoint;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const SHORT_WEEKDAYS: Record<string, Weekday> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/** Weekday, minutes since Sunday 00:00 and night of a timestamp in a time zone. */
+export interface LocalTime {
+  day: Weekday;
+  weekMinutes: number;
+  /** Date of the evening the night began, as `YYYY-MM-DD`. */
+  night: string;
+}
+
+/**
+ * Converts timestamps to local time in `timeZone`, the bed's time zone that
+ * programs and wake alarms run in. Throws a `RangeError` for unknown time zones.
+ */
+export function localClock(timeZone: string): (t: number) => LocalTime {
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+  const parts = (t: number) =>
+    Object.fromEntries(format.formatToParts(t).map(({ type, value }) => [type, value])) as Record<string, string>;
+  return (t) => {
+    const { weekday, hour, minute } = parts(t);
+    const day = SHORT_WEEKDAYS[weekday];
+    // Nights run from noon to noon, so one after midnight counts for the evening before.
+    const noon = parts(t - 12 * 60 * 60 * 1000);
+    return {
+      day,
+      weekMinutes: day * MINUTES_PER_DAY + Number(hour) * 60 + Number(minute),
+      night: `${noon.year}-${noon.month}-${noon.day}`,
+    };
+  };
+}
+
+/** Converts an `HH:MM` string into minutes after midnight. */
+export const timeToMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+/** Returns the setpoints ordered by time of day. */
+export const sortSetpoints = (setpoints: Setpoint[]) =>
+  [...setpoints].sort((a, b) => timeToMinutes(a.time) - timeToMinutes(b.time));
+
+/** Longest wake-up ramp, in minutes. */
+export const MAX_RAMP_MINUTES = 180;
+
+/** Ramp lengths offered for wake alarms, in minutes. */
+export const WAKE_RAMP_MINUTES = [15, 30, 45, 60, 90];
+
+export const DEFAULT_WAKE_ALARM: WakeAlarm = { enabled: false, time: '07:00', temp: 82, rampMinutes: 30 };
+
+/** A typical night: warm the bed, cool it for deep sleep, warm before waking. */
+export const DEFAULT_SETPOINTS: Setpoint[] = [
+  { time: '22:00', temp: 80, label: 'Bedtime warm-up' },
+  { time: '23:30', temp: 66, label: 'Deep sleep' },
+  { time: '06:00', temp: 78, label: 'Pre-wake warm' },
+];
+
+/**
+ * Finds the active segment and the upcoming setpoint of a weekly program.
+ * The program wraps around the week, so the last setpoint on Saturday stays
+ * active until the first one on Sunday.
+ */
+export const evaluateSchedule = (program: WeeklyProgram | undefined, now: LocalTime): ScheduleStatus =>
+  evaluateScheduleAt(program, now.weekMinutes);
+
+/** Like `evaluateSchedule`, for a time given in minutes since Sunday 00:00. */
+export function evaluateScheduleAt(program: WeeklyProgram | undefined, weekMinutes: number): ScheduleStatus {
+  const timeline = WEEKDAYS.flatMap((day) =>
+    (program?.[day] ?? []).map((sp) => ({
+      setpoint: { ...sp, day },
+      at: day * MINUTES_PER_DAY + timeToMinutes(sp.time),
+    })),
+  ).sort((a, b) => a.at - b.at);
+
+  if (timeline.length === 0) return {};
+
+  const nextIndex = timeline.findIndex((sp) => sp.at > weekMinutes);
+  const activeIndex =
+    nextIndex === -1 ? timeline.length - 1 : (nextIndex - 1 + timeline.length) % timeline.length;
+
+  return {
+    active: timeline[activeIndex].setpoint,
+    next: timeline[nextIndex === -1 ? 0 : nextIndex].setpoint,
+  };
+}
+
+/**
+ * How far a wake alarm's ramp has progressed at `now`, from 0 when the window
+ * opens to 1 at the wake time. The alarm stays at 1 for the minute after the
+ * wake time and is `undefined` outside the window or while disabled.
+ */
+export function wakeProgress(alarm: WakeAlarm | undefined, now: LocalTime): number | undefined {
+  if (!alarm?.enabled) return undefined;
+  const nowMinutes = now.weekMinutes % MINUTES_PER_DAY;
+  const opens = timeToMinutes(alarm.time) - alarm.rampMinutes;
+  const since = (((nowMinutes - opens) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  if (since >= alarm.rampMinutes + 1) return undefined;
+  return alarm.rampMinutes === 0 ? 1 : Math.min(1, since / alarm.rampMinutes);
+}
+
+/**
+ * Moves a ramp along: `target` is where the zone stood at `fromProgress`, and
+ * the result is where it should stand at `progress` to reach `wakeTemp` at 1.
+ * Starting from the zone's present target lets a ramp pick up midway.
+ */
+export const rampToward = (target: number, wakeTemp: number, fromProgress: number, progress: number) =>
+  fromProgress >= 1
+    ? wakeTemp
+    : target + ((wakeTemp - target) * (progress - fromProgress)) / (1 - fromProgress);
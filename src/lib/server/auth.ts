@@ -0,0 +1,19 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { BedApiError } from '../validation';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Checks the `Authorization: Bearer <token>` header against
+ * `BED_THERMOSTAT_TOKEN`. Without that variable the thermostat API is open to
+ * anyone who can reach the server, as the rest of the bed API is.
+ */
+export function checkThermostatToken(request: Request) {
+  const expected = process.env.BED_THERMOSTAT_TOKEN;
+  if (!expected) return;
+  const [scheme, token] = request.headers.get('Authorization')?.split(' ') ?? [];
+  // Digests have equal lengths, which `timingSafeEqual` requires.
+  if (scheme?.toLowerCase() !== 'bearer' || !token || !timingSafeEqual(digest(token), digest(expected))) {
+    throw new BedApiError('unauthorized', 'Missing or invalid bearer token');
+  }
+}
@@ -0,0 +1,732 @@
+import {
+  AutopilotMode,
+  AutopilotState,
+  changeSetpoints,
+  countNights,
+  MAX_RECOMMENDATIONS,
+  Recommendation,
+  recommendSetpoints,
+  SleepEpoch,
+} from '../autopilot';
+import type { ConfigDocument, PortableSchedule } from '../configDocument';
+import type { ZoneReading } from '../devices/types';
+import type { Preset } from '../presets';
+import { en } from '../messages/en';
+import { checkPresence, PresenceSettings } from '../presence';
+import { checkSafety, SafetySettings } from '../safety';
+import {
+  evaluateSchedule,
+  LocalTime,
+  localClock,
+  rampToward,
+  ScheduledSetpoint,
+  WeeklyProgram,
+  wakeProgress,
+} from '../schedule';
+import { snap, UNIT_STEP } from '../temperature';
+import { BedApiError } from '../validation';
+import {
+  Automation,
+  BedEvent,
+  BedState,
+  BedSummary,
+  clampTarget,
+  clampTemp,
+  DEFAULT_BED,
+  LinkSettings,
+  modeFor,
+  Side,
+  SIDES,
+  supportedMode,
+  ZonePatch,
+  ZoneState,
+} from '../zone';
+import { bedConfigs, findBed } from './beds';
+import { getDevice } from './device';
+import { recordSample, temperatureAt } from './historyStore';
+import { addSleepData } from './sleepStore';
+
+type Listener = (event: BedEvent) => void;
+
+interface StoreState {
+  bedId: string;
+  bed: BedState;
+  /** Settles once capabilities and readings have been fetched from the controller. */
+  loaded: Promise<void> | null;
+  /** Client that wrote the current version of each side. */
+  authors: Partial<Record<Side, string>>;
+  listeners: Set<Listener>;
+  /** When each side started its current stretch of heating. */
+  heatingSince: Partial<Record<Side, number>>;
+  /** When each side was last seen becoming empty. */
+  emptySince: Partial<Record<Side, number>>;
+  /** Program segment last applied to each side, `null` while its program isn't running. */
+  segments: Partial<Record<Side, string | null>>;
+  /** How far each side's wake-up ramp had progressed at the last check. */
+  wakeRamps: Partial<Record<Side, number>>;
+}
+
+/** Who is writing and which version of the side they last saw. */
+export interface WriteContext {
+  clientId?: string;
+  baseVersion?: number;
+}
+
+/** How often the safety and presence rules and the schedules are checked. */
+const SAFETY_CHECK_MS = 15_000;
+
+// Kept on globalThis so the state survives module reloads in development.
+const globalStore = globalThis as typeof globalThis & { __bedStores?: Map<string, StoreState> };
+
+const withReading = (bed: BedState, side: Side, { fault, ...reading }: ZoneReading): BedState => {
+  const zone: ZoneState = { ...bed.zones[side], ...reading };
+  if (fault) zone.fault = fault;
+  else delete zone.fault;
+  return { ...bed, zones: { ...bed.zones, [side]: zone } };
+};
+
+/** State of one bed, created on first use. Throws for unknown beds. */
+function store(bedId: string): StoreState {
+  findBed(bedId);
+  globalStore.__bedStores ??= new Map();
+  let state = globalStore.__bedStores.get(bedId);
+  if (!state) {
+    const created: StoreState = {
+      bedId,
+      bed: structuredClone(DEFAULT_BED),
+      loaded: null,
+      authors: {},
+      listeners: new Set(),
+      heatingSince: {},
+      emptySince: {},
+      segments: {},
+      wakeRamps: {},
+    };
+    getDevice(bedId).subscribe(({ side, ...reading }) => {
+      const wasOccupied = created.bed.zones[side].occupied;
+      created.bed = withReading(created.bed, side, reading);
+      recordSample(bedId, side, created.bed.zones[side]);
+      created.listeners.forEach((listener) => listener({ type: 'telemetry', side, reading }));
+      // Someone lying down shouldn't wait for the next check to get their side back.
+      if (created.bed.zones[side].occupied !== wasOccupied) {
+        enforcePresence(created).catch((error) => console.error(error));
+      }
+    });
+    // Rules are checked once the controller has been reached.
+    const timer = setInterval(() => {
+      created.loaded
+        ?.then(() => enforceSafety(created))
+        .then(() => enforcePresence(created))
+        .then(() => runPrograms(created))
+        .then(() => runAlarms(created))
+        .catch((error) => console.error(error));
+    }, SAFETY_CHECK_MS);
+    timer.unref?.();
+    globalStore.__bedStores.set(bedId, created);
+    state = created;
+  }
+  return state;
+}
+
+/** Fetches capabilities and readings from the controller, retrying on the next call if it fails. */
+function load(state: StoreState): Promise<void> {
+  state.loaded ??= (async () => {
+    const device = getDevice(state.bedId);
+    const [capabilities, readings] = await Promise.all([device.capabilities(), device.readZones()]);
+    state.bed = SIDES.reduce((bed, side) => withReading(bed, side, readings[side]), {
+      ...state.bed,
+      capabilities,
+    });
+  })().catch((error: Error) => {
+    state.loaded = null;
+    throw new BedApiError('device_unavailable', `Bed controller unavailable: ${error.message}`);
+  });
+  return state.loaded;
+}
+
+export async function getBed(bedId: string): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  return state.bed;
+}
+
+/**
+ * A bed as last known, and whether its controller could be reached. Unlike
+ * `getBed`, an unreachable controller isn't an error.
+ */
+export async function readBed(bedId: string): Promise<{ bed: BedState; available: boolean }> {
+  const state = store(bedId);
+  const available = await load(state).then(
+    () => true,
+    () => false,
+  );
+  return { bed: state.bed, available };
+}
+
+/** All beds with their zones; beds whose controller can't be reached are marked unavailable. */
+export function listBeds(): Promise<BedSummary[]> {
+  return Promise.all(
+    bedConfigs().map(async ({ id, name, timeZone }) => {
+      const { bed, available } = await readBed(id);
+      const { zones, sideNames } = bed;
+      const summary = { id, name, timeZone, zones, sideNames };
+      return available ? summary : { ...summary, unavailable: true };
+    }),
+  );
+}
+
+/** Sends mode and target changes to the controller, reporting failures as rejections. */
+async function sendToController(
+  state: StoreState,
+  side: Side,
+  current: ZoneState,
+  { mode, targetTemp }: Pick<ZonePatch, 'mode' | 'targetTemp'>,
+) {
+  const device = getDevice(state.bedId);
+  try {
+    if (targetTemp !== undefined && targetTemp !== current.targetTemp) {
+      await device.setTarget(side, targetTemp);
+    }
+    if (mode !== undefined && mode !== current.mode) {
+      await device.setMode(side, mode);
+    }
+  } catch (error) {
+    throw new BedApiError('device_rejected', (error as Error).message);
+  }
+}
+
+/** Stores a new state for one side, bumps its version and tells subscribers. */
+function commitZone(
+  state: StoreState,
+  side: Side,
+  zone: ZoneState,
+  {
+    clientId,
+    overwrote,
+    name,
+    automation,
+  }: { clientId?: string; overwrote?: string; name?: string; automation?: Automation } = {},
+) {
+  const { bed } = state;
+  state.bed = {
+    ...bed,
+    zones: { ...bed.zones, [side]: zone },
+    sideNames: name === undefined ? bed.sideNames : { ...bed.sideNames, [side]: name },
+    versions: { ...bed.versions, [side]: bed.versions[side] + 1 },
+  };
+  state.authors[side] = clientId;
+  trackHeating(state, side, Date.now());
+  state.listeners.forEach((listener) =>
+    listener({ type: 'update', bed: state.bed, side, origin: clientId, overwrote, automation }),
+  );
+}
+
+/** Starts or stops the heating clock of a side to match its mode. */
+function trackHeating(state: StoreState, side: Side, now: number) {
+  if (state.bed.zones[side].mode === 'heat') state.heatingSince[side] ??= now;
+  else delete state.heatingSince[side];
+}
+
+/**
+ * Applies the safety rules to both sides. A side that breaks one is turned off
+ * or lowered on the controller and marked with the intervention.
+ */
+async function enforceSafety(state: StoreState) {
+  const now = Date.now();
+  for (const side of SIDES) {
+    trackHeating(state, side, now);
+    const zone = state.bed.zones[side];
+    // An unreachable controller can't be told anything; try again once it's back.
+    if (zone.fault === 'offline') continue;
+    const action = checkSafety(zone, state.bed.safety, state.heatingSince[side], now);
+    if (!action) continue;
+
+    let changes: Pick<ZoneState, 'mode' | 'targetTemp'>;
+    if ('mode' in action) {
+      changes = { mode: action.mode };
+    } else {
+      const mode = modeFor(action.targetTemp, zone.currentTemp, zone.mode);
+      changes = {
+        targetTemp: action.targetTemp,
+        mode: state.bed.capabilities.modes.includes(mode) ? mode : 'off',
+      };
+    }
+    try {
+      await sendToController(state, side, zone, changes);
+    } catch (error) {
+      console.error(error);
+      continue;
+    }
+    const next: ZoneState = {
+      ...zone,
+      ...changes,
+      intervention: zone.mode === 'off' ? zone.intervention : { rule: action.rule, at: now },
+    };
+    if (action.rule === 'auto_off') delete next.autoOffAt;
+    commitZone(state, side, next);
+  }
+}
+
+/** Starts or stops the empty clock of a side to match its occupancy. */
+function trackPresence(state: StoreState, side: Side, now: number) {
+  if (state.bed.zones[side].occupied === false) state.emptySince[side] ??= now;
+  else delete state.emptySince[side];
+}
+
+/**
+ * Applies each side's presence settings: a side empty for too long is turned
+ * off and remembers its mode, which comes back when someone lies down again.
+ */
+async function enforcePresence(state: StoreState) {
+  const now = Date.now();
+  for (const side of SIDES) {
+    trackPresence(state, side, now);
+    const zone = state.bed.zones[side];
+    if (zone.fault === 'offline') continue;
+    const mode = checkPresence(zone, state.bed.presence[side], state.emptySince[side], now);
+    // A faulted side only accepts being turned off.
+    if (mode === null || (mode !== 'off' && zone.fault)) continue;
+    try {
+      await sendToController(state, side, zone, { mode });
+    } catch (error) {
+      console.error(error);
+      continue;
+    }
+    const next: ZoneState = { ...zone, mode };
+    if (mode === 'off') next.presencePause = { mode: zone.mode, at: now };
+    else delete next.presencePause;
+    commitZone(state, side, next);
+  }
+}
+
+/**
+ * Makes a change on a side for one of its schedules. A new target is kept
+ * within the controller's range and the safety maximum, and the side switches
+ * mode to reach it; like a user's change, it clears the side's intervention
+ * and presence pause. Resolves with whether the controller took the change.
+ */
+async function automate(
+  state: StoreState,
+  side: Side,
+  changes: Pick<ZoneState, 'schedule'> & Partial<Pick<ZoneState, 'mode' | 'targetTemp'>>,
+  automation: Automation,
+): Promise<boolean> {
+  const { capabilities, safety } = state.bed;
+  const zone = state.bed.zones[side];
+  const requested = changes.targetTemp === undefined ? undefined : clampTemp(changes.targetTemp, capabilities);
+  const capped = requested !== undefined && requested > safety.maxTemp;
+  const targetTemp = capped ? safety.maxTemp : requested;
+  const mode =
+    changes.mode ??
+    (targetTemp === undefined
+      ? undefined
+      : supportedMode(modeFor(targetTemp, zone.currentTemp, 'heat'), capabilities));
+  try {
+    await sendToController(state, side, zone, { mode, targetTemp });
+  } catch (error) {
+    console.error(error);
+    return false;
+  }
+  const next: ZoneState = { ...zone, schedule: changes.schedule };
+  if (mode !== undefined) next.mode = mode;
+  if (targetTemp !== undefined) next.targetTemp = targetTemp;
+  if (capped) next.intervention = { rule: 'max_temp', at: Date.now() };
+  else delete next.intervention;
+  delete next.presencePause;
+  commitZone(state, side, next, { automation });
+  return true;
+}
+
+/** The setpoint whose segment a side's running program is in at `now`. */
+const activeSetpoint = ({ schedule }: ZoneState, now: LocalTime): ScheduledSetpoint | undefined =>
+  schedule?.running ? evaluateSchedule(schedule.program, now).active : undefined;
+
+const segmentKey = (setpoint: ScheduledSetpoint | undefined) =>
+  setpoint ? `${setpoint.day}-${setpoint.time}-${setpoint.temp}` : null;
+
+/**
+ * Moves each side with a running program to a setpoint's temperature when its
+ * segment begins, in the bed's time zone. Changes made during a segment
+ * are kept until the next one. Starting a program, or editing the setpoint in
+ * effect, counts as a new segment. Faulted sides are left alone and pick up
+ * the program once they recover.
+ */
+async function runPrograms(state: StoreState) {
+  const now = localClock(findBed(state.bedId).timeZone)(Date.now());
+  for (const side of SIDES) {
+    const zone = state.bed.zones[side];
+    if (zone.fault) continue;
+    const active = activeSetpoint(zone, now);
+    const key = segmentKey(active);
+    if (key === state.segments[side]) continue;
+    // A segment the controller refused is tried again on the next check.
+    if (!active || (await automate(state, side, { schedule: zone.schedule, targetTemp: active.temp }, 'program'))) {
+      state.segments[side] = key;
+    }
+  }
+}
+
+/**
+ * Turns off sides whose sleep timer has run out and moves wake-up ramps along.
+ * A ramp moves the target a little further on every check, starting from
+ * wherever it stands, so it survives manual nudges; it starts on the check
+ * after its window opens. Wake times are in the bed's time zone.
+ */
+async function runAlarms(state: StoreState) {
+  const now = Date.now();
+  const local = localClock(findBed(state.bedId).timeZone)(now);
+  for (const side of SIDES) {
+    const zone = state.bed.zones[side];
+    if (zone.fault === 'offline') continue;
+    const { wake, sleepTimer } = zone.schedule ?? {};
+    if (sleepTimer && now >= sleepTimer.endsAt) {
+      const schedule = { ...zone.schedule, running: zone.schedule?.running ?? false, sleepTimer: undefined };
+      await automate(state, side, { schedule, mode: 'off' }, 'sleep_timer');
+      continue;
+    }
+    // A faulted side can only be turned off.
+    if (zone.fault) continue;
+    const progress = wakeProgress(wake, local);
+    const last = state.wakeRamps[side];
+    state.wakeRamps[side] = progress;
+    if (!wake || progress === undefined || last === undefined || last >= 1 || progress === last) continue;
+    const from = zone.mode === 'off' ? zone.currentTemp : zone.targetTemp ?? zone.currentTemp;
+    // Steps land on whole °F, which the controls can show and return to; the
+    // last one lands on the alarm's own temperature.
+    const targetTemp = progress >= 1 ? wake.temp : snap(rampToward(from, wake.temp, last, progress), UNIT_STEP.F);
+    const { capabilities, safety } = state.bed;
+    if (zone.mode !== 'off' && Math.min(clampTemp(targetTemp, capabilities), safety.maxTemp) === zone.targetTemp) {
+      continue;
+    }
+    await automate(state, side, { schedule: zone.schedule, targetTemp }, 'wake');
+  }
+}
+
+/** Refuses changes made by people while the child lock is on; the server's own rules still run. */
+function assertUnlocked(state: StoreState) {
+  if (state.bed.safety.childLock) {
+    throw new BedApiError('locked', 'The child lock is on; turn it off before making changes', 'childLock');
+  }
+}
+
+/**
+ * Applies a validated patch to one side and returns the updated bed. Mode and
+ * target go to the controller first and must fit its capabilities; targets
+ * above the safety maximum are capped and marked as an intervention. A
+ * faulted side can only be turned off until the fault clears, and nothing
+ * can be changed while the child lock is on. Writes are otherwise never
+ * refused: the last one wins, and if the writer had not
+ * seen the side's current version the overwritten client is named in the
+ * broadcast.
+ */
+export async function patchZone(
+  bedId: string,
+  side: Side,
+  { name, autoOffAt, ...zonePatch }: ZonePatch,
+  { clientId, baseVersion }: WriteContext = {},
+): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  assertUnlocked(state);
+  const { capabilities, safety } = state.bed;
+  const { mode, targetTemp: requested } = zonePatch;
+
+  if (requested !== undefined && (requested < capabilities.minTemp || requested > capabilities.maxTemp)) {
+    throw new BedApiError(
+      'out_of_range',
+      `targetTemp must be between ${capabilities.minTemp} and ${capabilities.maxTemp} °F`,
+      'targetTemp',
+    );
+  }
+  if (mode !== undefined && !capabilities.modes.includes(mode)) {
+    throw new BedApiError('invalid_field', `mode "${mode}" is not supported by this bed`, 'mode');
+  }
+
+  const current = state.bed.zones[side];
+  if (current.fault && (requested !== undefined || (mode !== undefined && mode !== 'off'))) {
+    throw new BedApiError(
+      'device_unavailable',
+      `The ${side} side can't be changed: ${en.faults[current.fault].label.toLowerCase()}`,
+      requested !== undefined ? 'targetTemp' : 'mode',
+    );
+  }
+
+  const capped = requested !== undefined && requested > safety.maxTemp;
+  const targetTemp = capped ? safety.maxTemp : requested;
+  await sendToController(state, side, current, { mode, targetTemp });
+
+  const previousAuthor = state.authors[side];
+  const overwrote =
+    baseVersion !== undefined && baseVersion < state.bed.versions[side] && previousAuthor !== clientId
+      ? previousAuthor
+      : undefined;
+
+  const next: ZoneState = { ...current, ...zonePatch };
+  if (targetTemp !== undefined) next.targetTemp = targetTemp;
+  if (autoOffAt === null) delete next.autoOffAt;
+  else if (autoOffAt !== undefined) next.autoOffAt = autoOffAt;
+  // Only a new mode or target replaces what the safety and presence rules did;
+  // resending the present ones, e.g. along with a schedule, leaves their marks.
+  const retargeted =
+    (mode !== undefined && mode !== current.mode) || (targetTemp !== undefined && targetTemp !== current.targetTemp);
+  if (capped) next.intervention = { rule: 'max_temp', at: Date.now() };
+  else if (retargeted) delete next.intervention;
+  // Someone chose the side's settings, so presence automation no longer restores the old mode.
+  if (retargeted) delete next.presencePause;
+
+  commitZone(state, side, next, { clientId, overwrote, name });
+  return state.bed;
+}
+
+/**
+ * Changes the safety settings of the bed and returns the updated bed. A
+ * lowered maximum applies to both sides right away.
+ */
+export async function updateSafety(bedId: string, patch: Partial<SafetySettings>): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  // Turning the child lock off is the one change it lets through.
+  if (patch.childLock !== false) assertUnlocked(state);
+  const safety = { ...state.bed.safety, ...patch };
+  if (safety.safeTemp > safety.maxTemp) {
+    throw new BedApiError(
+      'out_of_range',
+      `safeTemp must not be above the maximum of ${safety.maxTemp} °F`,
+      patch.safeTemp === undefined ? 'maxTemp' : 'safeTemp',
+    );
+  }
+  state.bed = { ...state.bed, safety };
+  await enforceSafety(state);
+  state.listeners.forEach((listener) => listener({ type: 'snapshot', bed: state.bed }));
+  return state.bed;
+}
+
+/**
+ * Changes the presence settings of one or both sides and returns the updated
+ * bed. The new settings apply right away.
+ */
+export async function updatePresence(
+  bedId: string,
+  patch: Partial<Record<Side, Partial<PresenceSettings>>>,
+): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  assertUnlocked(state);
+  const presence = { ...state.bed.presence };
+  for (const side of SIDES) presence[side] = { ...presence[side], ...patch[side] };
+  state.bed = { ...state.bed, presence };
+  await enforcePresence(state);
+  state.listeners.forEach((listener) => listener({ type: 'snapshot', bed: state.bed }));
+  return state.bed;
+}
+
+/** Links or unlinks the sides of the bed and returns the updated bed. */
+export async function updateLink(bedId: string, patch: Partial<LinkSettings>): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  assertUnlocked(state);
+  state.bed = { ...state.bed, link: { ...state.bed.link, ...patch } };
+  state.listeners.forEach((listener) => listener({ type: 'snapshot', bed: state.bed }));
+  return state.bed;
+}
+
+/** Refuses imported temperatures this bed can't reach or its safety maximum forbids. */
+function assertImportable({ capabilities, safety }: BedState, side: Side, schedule: PortableSchedule) {
+  const max = Math.min(capabilities.maxTemp, safety.maxTemp);
+  const check = (temp: number, field: string) => {
+    if (temp < capabilities.minTemp || temp > max) {
+      throw new BedApiError('out_of_range', `${field} must be between ${capabilities.minTemp} and ${max} °F`, field);
+    }
+  };
+  Object.entries(schedule.program ?? {}).forEach(([day, setpoints]) =>
+    setpoints?.forEach((sp, i) => check(sp.temp, `schedules.${side}.program.${day}[${i}].temp`)),
+  );
+  if (schedule.wake) check(schedule.wake.temp, `schedules.${side}.wake.temp`);
+}
+
+/**
+ * Copies the side names and schedules of an imported configuration onto the
+ * bed and returns the updated bed. Running sleep timers are kept. Both sides
+ * are checked before either changes, so an import applies fully or not at
+ * all, and subscribers get one snapshot of the result.
+ */
+export async function importConfig(
+  bedId: string,
+  { sideNames, schedules }: ConfigDocument,
+  { clientId }: Pick<WriteContext, 'clientId'> = {},
+): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  assertUnlocked(state);
+  SIDES.forEach((side) => assertImportable(state.bed, side, schedules[side]));
+
+  const { bed } = state;
+  const zones = { ...bed.zones };
+  const versions = { ...bed.versions };
+  for (const side of SIDES) {
+    const { sleepTimer } = zones[side].schedule ?? {};
+    zones[side] = { ...zones[side], schedule: sleepTimer ? { ...schedules[side], sleepTimer } : schedules[side] };
+    versions[side] += 1;
+    state.authors[side] = clientId;
+  }
+  state.bed = { ...bed, zones, sideNames: { ...sideNames }, versions };
+  state.listeners.forEach((listener) => listener({ type: 'snapshot', bed: state.bed }));
+  return state.bed;
+}
+
+/** Stores a side's autopilot and sends subscribers a snapshot. */
+function commitAutopilot(state: StoreState, side: Side, autopilot: AutopilotState) {
+  state.bed = { ...state.bed, autopilot: { ...state.bed.autopilot, [side]: autopilot } };
+  state.listeners.forEach((listener) => listener({ type: 'snapshot', bed: state.bed }));
+}
+
+/** Changes the autopilot mode of one or both sides and returns the updated bed. */
+export async function updateAutopilot(
+  bedId: string,
+  patch: Partial<Record<Side, { mode: AutopilotMode }>>,
+): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  assertUnlocked(state);
+  const autopilot = { ...state.bed.autopilot };
+  for (const side of SIDES) autopilot[side] = { ...autopilot[side], ...patch[side] };
+  state.bed = { ...state.bed, autopilot };
+  state.listeners.forEach((listener) => listener({ type: 'snapshot', bed: state.bed }));
+  return state.bed;
+}
+
+/** Writes a new sleep program to a side, keeping the rest of its schedule. */
+async function writeProgram(bedId: string, side: Side, program: WeeklyProgram, clientId?: string) {
+  const { schedule = { running: false } } = (await getBed(bedId)).zones[side];
+  await patchZone(bedId, side, { schedule: { ...schedule, program } }, { clientId });
+}
+
+/**
+ * Adds imported sleep data to a side and, unless its autopilot is off,
+ * replaces the open proposals with fresh ones learned from all data kept for
+ * the side. Changes the user rejected before aren't proposed again. In `auto`
+ * mode they are applied to the program right away. Returns the updated bed.
+ */
+export async function importSleep(
+  bedId: string,
+  side: Side,
+  { epochs }: { epochs: SleepEpoch[] },
+  { clientId }: Pick<WriteContext, 'clientId'> = {},
+): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  assertUnlocked(state);
+  const kept = addSleepData(bedId, side, epochs);
+  const clock = localClock(findBed(bedId).timeZone);
+  const autopilot = state.bed.autopilot[side];
+  const { mode } = autopilot;
+  const nights = countNights(kept, clock);
+  if (mode === 'off') {
+    commitAutopilot(state, side, { ...autopilot, nights });
+    return state.bed;
+  }
+
+  const { capabilities, safety, zones } = state.bed;
+  const rejected = autopilot.recommendations.filter((r) => r.status === 'rejected');
+  const now = Date.now();
+  const changes = recommendSetpoints({
+    epochs: kept,
+    program: zones[side].schedule?.program,
+    clock,
+    temperatureAt: (t) => temperatureAt(bedId, side, t),
+    limit: (f) => clampTarget(f, capabilities, safety, 'F'),
+  }).filter(
+    (change) => !rejected.some((r) => r.time === change.time && r.from === change.from && r.to === change.to),
+  );
+
+  const fresh: Recommendation[] = [];
+  for (const [i, change] of changes.entries()) {
+    const recommendation: Recommendation = {
+      ...change,
+      id: `${now.toString(36)}-${i}`,
+      status: 'proposed',
+      at: now,
+    };
+    if (mode === 'auto') {
+      const program = changeSetpoints(state.bed.zones[side].schedule?.program, change);
+      if (!program) continue;
+      await writeProgram(bedId, side, program, clientId);
+      recommendation.status = 'applied';
+    }
+    fresh.push(recommendation);
+  }
+  commitAutopilot(state, side, {
+    ...autopilot,
+    nights,
+    recommendations: [...fresh, ...autopilot.recommendations.filter((r) => r.status !== 'proposed')].slice(
+      0,
+      MAX_RECOMMENDATIONS,
+    ),
+  });
+  return state.bed;
+}
+
+/**
+ * Records the user's verdict on a recommendation and returns the updated bed.
+ * Accepting a proposal applies it to the program; rejecting a change the
+ * autopilot applied puts the setpoints back. Refused with `conflict` when the
+ * recommendation was already decided or the program no longer has the
+ * setpoints it changes.
+ */
+export async function decideRecommendation(
+  bedId: string,
+  side: Side,
+  id: string,
+  status: 'accepted' | 'rejected',
+  { clientId }: Pick<WriteContext, 'clientId'> = {},
+): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  assertUnlocked(state);
+  const recommendation = state.bed.autopilot[side].recommendations.find((r) => r.id === id);
+  if (!recommendation) {
+    throw new BedApiError('unknown_recommendation', `Unknown recommendation "${id}"`, 'id');
+  }
+  if (recommendation.status === 'accepted' || recommendation.status === 'rejected') {
+    throw new BedApiError('conflict', `The recommendation was already ${recommendation.status}`, 'status');
+  }
+
+  const { time, days, from, to } = recommendation;
+  const change =
+    recommendation.status === 'proposed' && status === 'accepted'
+      ? { time, days, from, to }
+      : recommendation.status === 'applied' && status === 'rejected'
+      ? { time, days, from: to, to: from }
+      : null;
+  if (change) {
+    const program = changeSetpoints(state.bed.zones[side].schedule?.program, change);
+    if (!program) {
+      throw new BedApiError('conflict', `The program no longer has the setpoint at ${time} it changes`, 'id');
+    }
+    await writeProgram(bedId, side, program, clientId);
+  }
+
+  const autopilot = state.bed.autopilot[side];
+  commitAutopilot(state, side, {
+    ...autopilot,
+    recommendations: autopilot.recommendations.map((r) => (r.id === id ? { ...r, status } : r)),
+  });
+  return state.bed;
+}
+
+/** Replaces the bed's presets and returns the updated bed. */
+export async function setPresets(bedId: string, presets: Preset[]): Promise<BedState> {
+  const state = store(bedId);
+  await load(state);
+  assertUnlocked(state);
+  state.bed = { ...state.bed, presets };
+  state.listeners.forEach((listener) => listener({ type: 'snapshot', bed: state.bed }));
+  return state.bed;
+}
+
+/** Registers a listener for bed changes and returns a function that removes it. */
+export function subscribe(bedId: string, listener: Listener): () => void {
+  const { listeners } = store(bedId);
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,52 @@
+import { BedApiError } from '../validation';
+import { DEFAULT_BED_ID } from '../zone';
+
+/** A bed served by the app. */
+export interface BedConfig {
+  id: string;
+  name: string;
+  /** IANA time zone the bed's programs and wake alarms run in. */
+  timeZone: string;
+}
+
+/** Time zone of beds that don't name one: the server's, which `TZ` can set. */
+const serverTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const BED_ID_PATTERN = /^[a-z0-9-]+$/;
+
+let configs: BedConfig[] | undefined;
+
+/**
+ * Beds listed in `BEDS` as comma-separated `id:Name` pairs, each optionally
+ * followed by `@` and its time zone, e.g.
+ * `main:Main bedroom@Europe/Berlin,kids:Kids' room`, or a main and a guest
+ * bed. Ids are used in URLs, so they are limited to lowercase letters, digits
+ * and dashes.
+ */
+export function bedConfigs(): BedConfig[] {
+  configs ??= process.env.BEDS
+    ? process.env.BEDS.split(',').map((entry) => {
+        const [bed, zone] = entry.split('@');
+        const [id, ...name] = bed.split(':');
+        if (!BED_ID_PATTERN.test(id.trim())) throw new Error(`Invalid bed id in BEDS entry "${entry}"`);
+        const timeZone = zone?.trim() || serverTimeZone();
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone });
+        } catch {
+          throw new Error(`Invalid time zone in BEDS entry "${entry}"`);
+        }
+        return { id: id.trim(), name: name.join(':').trim() || id.trim(), timeZone };
+      })
+    : [
+        { id: DEFAULT_BED_ID, name: 'Main bedroom', timeZone: serverTimeZone() },
+        { id: 'guest', name: 'Guest room', timeZone: serverTimeZone() },
+      ];
+  return configs;
+}
+
+/** The bed with `id`, or a 404 bed API error. */
+export function findBed(id: string): BedConfig {
+  const bed = bedConfigs().find((config) => config.id === id);
+  if (!bed) throw new BedApiError('unknown_bed', `Unknown bed "${id}"`, 'bedId');
+  return bed;
+}
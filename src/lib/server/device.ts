@@ -0,0 +1,87 @@
+import { createMockDevice, MockBedDevice } from '../devices/mockDevice';
+import { createTcpDevice } from '../devices/tcpDevice';
+import type { BedDevice } from '../devices/types';
+import { ZONE_FAULTS } from '../faults';
+import { BedApiError } from '../validation';
+import { SIDES, type Side } from '../zone';
+import { bedConfigs, findBed } from './beds';
+
+const globalDevice = globalThis as typeof globalThis & { __bedDevices?: Map<string, BedDevice> };
+
+/**
+ * Reads per-side values for simulated beds from an environment variable
+ * holding a comma-separated list of `side:value` pairs. Prefix a pair with a
+ * bed id, as in `guest:right:low_water`, to limit it to that bed.
+ */
+function mockSideValues<T extends string>(variable: string, bedId: string, allowed: readonly T[]): [Side, T][] {
+  return (process.env[variable] ?? '')
+    .split(',')
+    .filter((entry) => entry.trim())
+    .flatMap((entry) => {
+      const parts = entry.split(':').map((part) => part.trim());
+      const [bed, side, value] = (parts.length === 3 ? parts : [undefined, ...parts]) as [
+        string | undefined,
+        Side,
+        T,
+      ];
+      if (!SIDES.includes(side) || !allowed.includes(value)) {
+        throw new Error(`Invalid ${variable} entry "${entry}"`);
+      }
+      return bed === undefined || bed === bedId ? [[side, value] as [Side, T]] : [];
+    });
+}
+
+/**
+ * Creates the adapter named by `BED_DEVICE` for a bed: `mock` (default)
+ * simulates it in-process, `tcp` talks to the controller at `BED_DEVICE_HOST`.
+ * Each bed's controller listens on its own port, counting up from
+ * `BED_DEVICE_PORT` in the order the beds are listed.
+ */
+function createDevice(bedId: string): BedDevice {
+  switch (process.env.BED_DEVICE ?? 'mock') {
+    case 'tcp':
+      return createTcpDevice({
+        host: process.env.BED_DEVICE_HOST ?? '127.0.0.1',
+        port:
+          Number(process.env.BED_DEVICE_PORT ?? 7878) +
+          bedConfigs().findIndex((config) => config.id === bedId),
+      });
+    case 'mock': {
+      const device = createMockDevice({ tickMs: 1000 });
+      // Faults such as `right:low_water`, and occupancy such as `left:empty`.
+      mockSideValues('BED_MOCK_FAULTS', bedId, ZONE_FAULTS).forEach(([side, fault]) =>
+        device.setFault(side, fault),
+      );
+      mockSideValues('BED_MOCK_OCCUPANCY', bedId, ['occupied', 'empty'] as const).forEach(([side, value]) =>
+        device.setOccupied(side, value === 'occupied'),
+      );
+      return device;
+    }
+    default:
+      throw new Error(`Unknown BED_DEVICE "${process.env.BED_DEVICE}"`);
+  }
+}
+
+/** The adapter of a bed, shared by all route handlers. Throws for unknown beds. */
+export function getDevice(bedId: string): BedDevice {
+  findBed(bedId);
+  globalDevice.__bedDevices ??= new Map();
+  let device = globalDevice.__bedDevices.get(bedId);
+  if (!device) {
+    device = createDevice(bedId);
+    globalDevice.__bedDevices.set(bedId, device);
+  }
+  return device;
+}
+
+/**
+ * The simulated controller of a bed, so what it senses can be changed while
+ * the app runs. Refused in production and for beds on another adapter.
+ */
+export function simulatedDevice(bedId: string): MockBedDevice {
+  const device = getDevice(bedId);
+  if (process.env.NODE_ENV === 'production' || !('setOccupied' in device)) {
+    throw new BedApiError('not_simulated', `Bed "${bedId}" is not simulated in development`);
+  }
+  return device as MockBedDevice;
+}
@@ -0,0 +1,75 @@
+import { BedHistory, downsample, HISTORY_RETENTION_MS, HistorySample } from '../history';
+import type { Side, ZoneState } from '../zone';
+
+/** Minimum spacing of samples while nothing but the sensed temperature changes. */
+const SAMPLE_INTERVAL_MS = 30_000;
+/** Points returned per side for any requested window. */
+const MAX_POINTS = 600;
+
+// Kept on globalThis so the history survives module reloads in development.
+const globalHistory = globalThis as typeof globalThis & { __bedHistory?: Map<string, BedHistory> };
+
+function history(bedId: string): BedHistory {
+  globalHistory.__bedHistory ??= new Map();
+  let bed = globalHistory.__bedHistory.get(bedId);
+  if (!bed) {
+    bed = { left: [], right: [] };
+    globalHistory.__bedHistory.set(bedId, bed);
+  }
+  return bed;
+}
+
+/**
+ * Records a zone reading of a bed. Readings closer together than the sample
+ * interval are dropped unless the mode or target changed.
+ */
+export function recordSample(
+  bedId: string,
+  side: Side,
+  { currentTemp, targetTemp, mode }: ZoneState,
+  t = Date.now(),
+) {
+  const samples = history(bedId)[side];
+  const last = samples[samples.length - 1];
+  if (
+    last &&
+    t - last.t < SAMPLE_INTERVAL_MS &&
+    last.mode === mode &&
+    last.targetTemp === targetTemp
+  ) {
+    return;
+  }
+  samples.push({ t, currentTemp, targetTemp, mode });
+  const expired = samples.findIndex((s) => s.t >= t - HISTORY_RETENTION_MS);
+  if (expired > 0) samples.splice(0, expired);
+}
+
+/** Samples of both sides of a bed between `from` and `to`, thinned for charting. */
+export function getHistory(bedId: string, from: number, to: number): BedHistory {
+  const { left, right } = history(bedId);
+  const pick = (samples: HistorySample[]) =>
+    downsample(
+      samples.filter((s) => s.t >= from && s.t <= to),
+      MAX_POINTS,
+    );
+  return { left: pick(left), right: pick(right) };
+}
+
+/**
+ * Sensed temperature of a side at `t`, from the nearest sample within
+ * `toleranceMs`; `undefined` when nothing was recorded that close.
+ */
+export function temperatureAt(bedId: string, side: Side, t: number, toleranceMs = 10 * 60_000) {
+  const samples = history(bedId)[side];
+  let low = 0;
+  let high = samples.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (samples[mid].t < t) low = mid + 1;
+    else high = mid;
+  }
+  const nearest = [samples[low - 1], samples[low]]
+    .filter((s): s is HistorySample => s !== undefined && Math.abs(s.t - t) <= toleranceMs)
+    .sort((a, b) => Math.abs(a.t - t) - Math.abs(b.t - t))[0];
+  return nearest?.currentTemp;
+}
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+import { cookies } from 'next/headers';
+import { demoMessages } from '../messages';
+import { BedPage, parsePreferences, Preferences, PREFERENCES_COOKIE } from '../preferences';
+
+/** The preferences stored in the cookie of the request being rendered. */
+export const requestPreferences = async (): Promise<Preferences> =>
+  parsePreferences((await cookies()).get(PREFERENCES_COOKIE)?.value);
+
+/** The title of a bed page, in the language of the request's preferences. */
+export async function bedPageMetadata(page: BedPage): Promise<Metadata> {
+  return { title: demoMessages((await requestPreferences()).locale).pages[page] };
+}
@@ -0,0 +1,22 @@
+import { BedApiError } from '../validation';
+
+/** Turns an error thrown while handling a bed API request into a JSON response. */
+export function errorResponse(error: unknown): Response {
+  if (error instanceof BedApiError) {
+    return Response.json(error.toJSON(), {
+      status: error.status,
+      headers: error.code === 'unauthorized' ? { 'WWW-Authenticate': 'Bearer' } : undefined,
+    });
+  }
+  console.error(error);
+  return Response.json({ error: { code: 'internal', message: 'Internal error' } }, { status: 500 });
+}
+
+/** Reads a JSON request body, rejecting malformed input as a bed API error. */
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new BedApiError('invalid_json', 'Request body must be valid JSON');
+  }
+}
@@ -0,0 +1,32 @@
+import { SLEEP_RETENTION_NIGHTS, SleepEpoch } from '../autopilot';
+import type { Side } from '../zone';
+
+type BedSleep = Record<Side, SleepEpoch[]>;
+
+// Kept on globalThis so imported data survives module reloads in development.
+const globalSleep = globalThis as typeof globalThis & { __bedSleep?: Map<string, BedSleep> };
+
+function sleep(bedId: string): BedSleep {
+  globalSleep.__bedSleep ??= new Map();
+  let bed = globalSleep.__bedSleep.get(bedId);
+  if (!bed) {
+    bed = { left: [], right: [] };
+    globalSleep.__bedSleep.set(bedId, bed);
+  }
+  return bed;
+}
+
+/**
+ * Adds imported readings to a side and returns all readings kept for it,
+ * oldest first. A reading at the same time as a kept one replaces it, so
+ * importing an export twice changes nothing; readings older than the
+ * retention period are dropped.
+ */
+export function addSleepData(bedId: string, side: Side, epochs: SleepEpoch[], now = Date.now()): SleepEpoch[] {
+  const bed = sleep(bedId);
+  const byTime = new Map(bed[side].map((epoch) => [epoch.t, epoch]));
+  epochs.forEach((epoch) => byTime.set(epoch.t, epoch));
+  const since = now - SLEEP_RETENTION_NIGHTS * 24 * 60 * 60 * 1000;
+  bed[side] = [...byTime.values()].filter((epoch) => epoch.t >= since).sort((a, b) => a.t - b.t);
+  return bed[side];
+}
@@ -0,0 +1,81 @@
+import type { ZoneState } from './zone';
+
+/**
+ * Parameters of the thermal model. Temperatures are in Fahrenheit and rates
+ * are per simulated minute.
+ */
+export interface ThermalConfig {
+  /** Degrees per minute a heating zone can gain. */
+  heatRate: number;
+  /** Degrees per minute a cooling zone can lose. */
+  coolRate: number;
+  /** Temperature of the room the bed settles to when idle. */
+  ambientTemp: number;
+  /** Fraction of the gap to ambient closed per minute by passive drift. */
+  ambientRate: number;
+  /** Fraction of the gap between the two halves exchanged per minute. */
+  crossover: number;
+}
+
+/** Simulated minutes that pass per real second. */
+export const SIMULATED_MINUTES_PER_SECOND = 1;
+
+export const DEFAULT_THERMAL_CONFIG: ThermalConfig = {
+  heatRate: 1.5,
+  coolRate: 1,
+  ambientTemp: 70,
+  ambientRate: 0.05,
+  crossover: 0.02,
+};
+
+/** Exponential approach of `from` toward `to`, closing `rate` of the gap per minute. */
+const decay = (from: number, to: number, rate: number, minutes: number) =>
+  to + (from - to) * Math.pow(1 - Math.min(1, rate), minutes);
+
+/**
+ * Moves a zone's temperature for `minutes` under its own power. Off zones
+ * drift toward ambient. Active zones drive toward their target at the heat or
+ * cool rate and hold it exactly once it is within reach, so the UI can tell
+ * "Maintaining" apart from "Heating to". A zone far on the wrong side of its
+ * target for its mode can only coast toward ambient, never past the target.
+ */
+export function stepZone(
+  zone: ZoneState,
+  minutes: number,
+  config: ThermalConfig = DEFAULT_THERMAL_CONFIG,
+): number {
+  const { currentTemp, targetTemp, mode } = zone;
+  const drifted = decay(currentTemp, config.ambientTemp, config.ambientRate, minutes);
+  if (mode === 'off' || targetTemp === undefined) return drifted;
+
+  const gap = targetTemp - currentTemp;
+  const reach = (mode === 'heat' ? config.heatRate : config.coolRate) * minutes;
+  if (Math.abs(gap) <= reach) return targetTemp;
+  if ((mode === 'heat' && gap > 0) || (mode === 'cool' && gap < 0)) {
+    return currentTemp + Math.sign(gap) * reach;
+  }
+  return gap > 0 ? Math.min(targetTemp, drifted) : Math.max(targetTemp, drifted);
+}
+
+/**
+ * Advances both halves of the bed by `minutes`. Heat crosses the center line
+ * first; each zone's controller then compensates, so an active zone that can
+ * absorb the crossover stays on target.
+ */
+export function simulateBed<K extends string>(
+  zones: Record<K, ZoneState>,
+  minutes: number,
+  config: ThermalConfig = DEFAULT_THERMAL_CONFIG,
+): Record<K, ZoneState> {
+  const keys = Object.keys(zones) as K[];
+  const mean = keys.reduce((sum, k) => sum + zones[k].currentTemp, 0) / keys.length;
+
+  return Object.fromEntries(
+    keys.map((k) => {
+      const zone = zones[k];
+      const crossed = decay(zone.currentTemp, mean, config.crossover, minutes);
+      const currentTemp = stepZone({ ...zone, currentTemp: crossed }, minutes, config);
+      return [k, currentTemp === zone.currentTemp ? zone : { ...zone, currentTemp }];
+    }),
+  ) as Record<K, ZoneState>;
+}
@@ -0,0 +1,170 @@
+import { MAX_SLEEP_EPOCHS, SleepEpoch, SleepStage } from './autopilot';
+import { BedApiError } from './validation';
+
+/** Column or property names recognized in exports, compared without case, spaces or underscores. */
+const FIELDS = {
+  t: ['timestamp', 'time', 'datetime', 'date', 'start', 'starttime', 'startdate'],
+  seconds: ['seconds', 'duration', 'durationseconds'],
+  stage: ['stage', 'sleepstage', 'level', 'state'],
+  heartRate: ['heartrate', 'hr', 'bpm', 'pulse'],
+};
+
+/** Stage names used by common wearables. */
+const STAGES: Record<string, SleepStage> = {
+  awake: 'awake',
+  wake: 'awake',
+  w: 'awake',
+  restless: 'awake',
+  light: 'light',
+  core: 'light',
+  asleep: 'light',
+  n1: 'light',
+  n2: 'light',
+  deep: 'deep',
+  n3: 'deep',
+  sws: 'deep',
+  rem: 'rem',
+  r: 'rem',
+};
+
+const normalize = (name: string) => name.toLowerCase().replace(/[\s_-]/g, '');
+
+type Row = Record<string, unknown>;
+
+const isRow = (value: unknown): value is Row =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasTime = (row: Row) => Object.keys(row).some((key) => FIELDS.t.includes(normalize(key)));
+
+/** The first list of readings in a JSON export, searching nested objects and lists. */
+function findRows(value: unknown): Row[] | undefined {
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(isRow) && value.some(hasTime)) return value;
+    for (const item of value) {
+      const rows = findRows(item);
+      if (rows) return rows;
+    }
+  } else if (isRow(value)) {
+    for (const item of Object.values(value)) {
+      const rows = findRows(item);
+      if (rows) return rows;
+    }
+  }
+  return undefined;
+}
+
+/** Splits CSV text into rows of cells, honoring quoted cells. */
+function csvRows(text: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const cells: string[] = [];
+      let cell = '';
+      let quoted = false;
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+          if (char === '"' && line[i + 1] === '"') {
+            cell += '"';
+            i++;
+          } else if (char === '"') quoted = false;
+          else cell += char;
+        } else if (char === '"') quoted = true;
+        else if (char === ',' || char === ';') {
+          cells.push(cell.trim());
+          cell = '';
+        } else cell += char;
+      }
+      cells.push(cell.trim());
+      return cells;
+    });
+}
+
+/**
+ * Reads a timestamp given as ISO 8601 text or as seconds or milliseconds since
+ * the epoch. Text without a time zone is taken as local time.
+ */
+function parseTime(value: unknown): number | undefined {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const number = Number(value);
+    return Number.isFinite(number) ? (number < 1e12 ? number * 1000 : number) : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+  const t = Date.parse(value.trim().replace(' ', 'T'));
+  return Number.isNaN(t) ? undefined : t;
+}
+
+const parseNumber = (value: unknown) => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+/** Turns one reading into an epoch; `where` names it in errors. */
+function toEpoch(row: Row, where: string): SleepEpoch | undefined {
+  const fields: Partial<Record<keyof typeof FIELDS, unknown>> = {};
+  for (const [key, value] of Object.entries(row)) {
+    const name = (Object.keys(FIELDS) as (keyof typeof FIELDS)[]).find((field) =>
+      FIELDS[field].includes(normalize(key)),
+    );
+    if (name && fields[name] === undefined) fields[name] = value;
+  }
+  const t = parseTime(fields.t);
+  if (t === undefined) {
+    throw new BedApiError('invalid_field', `${where} has no readable time`, where);
+  }
+  const stage = typeof fields.stage === 'string' ? STAGES[normalize(fields.stage)] : undefined;
+  const heartRate = parseNumber(fields.heartRate);
+  const seconds = parseNumber(fields.seconds);
+  if (!stage && heartRate === undefined) return undefined;
+  return {
+    t,
+    ...(seconds !== undefined && seconds > 0 ? { seconds } : {}),
+    ...(stage ? { stage } : {}),
+    ...(heartRate !== undefined && heartRate > 0 ? { heartRate } : {}),
+  };
+}
+
+/**
+ * Reads a sleep export from a wearable, as CSV with a header row or as JSON
+ * holding a list of readings. Each reading needs a time and a sleep stage,
+ * a heart rate or both; a duration in seconds is optional. Rows with neither
+ * stage nor heart rate are skipped. Problems are reported as bed API errors
+ * naming the line or entry.
+ */
+export function parseSleepData(text: string): SleepEpoch[] {
+  let rows: { row: Row; where: string }[];
+  if (/^\s*[[{]/.test(text)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new BedApiError('invalid_json', 'The file is not valid JSON');
+    }
+    const found = findRows(parsed);
+    if (!found) throw new BedApiError('invalid_field', 'No list of readings with times was found');
+    rows = found.map((row, i) => ({ row, where: `entry ${i + 1}` }));
+  } else {
+    const [header, ...lines] = csvRows(text);
+    if (!header || !header.some((name) => FIELDS.t.includes(normalize(name)))) {
+      throw new BedApiError(
+        'invalid_field',
+        'The first line must name the columns, including a time column',
+        'line 1',
+      );
+    }
+    rows = lines.map((cells, i) => ({
+      row: Object.fromEntries(header.map((name, column) => [name, cells[column]])),
+      where: `line ${i + 2}`,
+    }));
+  }
+
+  const epochs = rows.flatMap(({ row, where }) => toEpoch(row, where) ?? []);
+  if (epochs.length === 0) {
+    throw new BedApiError('invalid_field', 'The file has no readings with a sleep stage or heart rate');
+  }
+  if (epochs.length > MAX_SLEEP_EPOCHS) {
+    throw new BedApiError('out_of_range', `The file has more than ${MAX_SLEEP_EPOCHS} readings`);
+  }
+  return epochs;
+}
@@ -0,0 +1,43 @@
+/**
+ * Temperatures are stored in Fahrenheit everywhere: in zone state, on the
+ * server and on the controller. Other units only exist at the edges, where
+ * values are converted for display and converted back when the user picks one.
+ * Stored values are never rewritten when the display unit changes, so toggling
+ * units back and forth can't make them drift.
+ */
+export type TempUnit = 'F' | 'C';
+
+export const TEMP_UNITS: readonly TempUnit[] = ['F', 'C'];
+
+/** Smallest change offered to users in each unit. */
+export const UNIT_STEP: Record<TempUnit, number> = { F: 1, C: 0.5 };
+
+export const fToC = (f: number) => ((f - 32) * 5) / 9;
+export const cToF = (c: number) => (c * 9) / 5 + 32;
+
+/** Rounds away floating-point noise, e.g. 68.90000000000001 → 68.9. */
+const clean = (value: number) => Math.round(value * 1000) / 1000;
+
+/** Converts a Fahrenheit value into `unit` without rounding. */
+export const toUnit = (f: number, unit: TempUnit) => (unit === 'C' ? fToC(f) : f);
+
+/** Converts a value in `unit` into Fahrenheit. */
+export const fromUnit = (t: number, unit: TempUnit) => clean(unit === 'C' ? cToF(t) : t);
+
+/** Rounds a value to a multiple of `step` with `round` (default nearest). */
+export const snap = (value: number, step: number, round: (x: number) => number = Math.round) =>
+  clean(round(value / step) * step);
+
+/** Converts a temperature difference from Fahrenheit into `unit`. */
+export const deltaToUnit = (f: number, unit: TempUnit) => (unit === 'C' ? (f * 5) / 9 : f);
+
+/** Converts a temperature difference in `unit` into Fahrenheit. */
+export const deltaFromUnit = (t: number, unit: TempUnit) => clean(unit === 'C' ? (t * 9) / 5 : t);
+
+/** A Fahrenheit value as shown in `unit`: converted and snapped to `step`. */
+export const displayTemp = (f: number, unit: TempUnit, step = UNIT_STEP[unit]) =>
+  snap(toUnit(f, unit), step);
+
+/** A Fahrenheit value formatted for display in `unit`, e.g. `20.5°C`. */
+export const formatTemp = (f: number, unit: TempUnit, step = UNIT_STEP[unit]) =>
+  `${displayTemp(f, unit, step)}°${unit}`;
@@ -0,0 +1,122 @@
+import { displayTemp, fromUnit, snap, TempUnit, toUnit } from './temperature';
+import { BedApiError } from './validation';
+import {
+  BedState,
+  clampTarget,
+  Mode,
+  retargetZone,
+  Side,
+  targetRange,
+  ZonePatch,
+  ZoneState,
+} from './zone';
+
+/** Thermostat modes have the same names as the zone modes they stand for. */
+export type HvacMode = Mode;
+
+/** What the side is doing right now, as home-automation hubs expect it. */
+export type HvacAction = 'heating' | 'cooling' | 'idle' | 'off';
+
+/**
+ * One side of a bed as a generic thermostat entity, with field names that
+ * home-automation hubs use. Temperatures are in `temperature_unit`;
+ * `available` is false while the controller can't be reached or reports a
+ * fault for the side.
+ */
+export interface Thermostat {
+  id: string;
+  name: string;
+  bed_id: string;
+  side: Side;
+  /** Path of the thermostat's own endpoint. */
+  url: string;
+  available: boolean;
+  hvac_mode: HvacMode;
+  hvac_modes: HvacMode[];
+  hvac_action: HvacAction;
+  current_temperature: number;
+  target_temperature: number | null;
+  min_temp: number;
+  max_temp: number;
+  target_temp_step: number;
+  temperature_unit: TempUnit;
+}
+
+/** A change sent by a hub; temperatures are in the unit it asked for. */
+export interface ThermostatCommand {
+  hvac_mode?: HvacMode;
+  target_temperature?: number;
+}
+
+const hvacAction = ({ mode, currentTemp, targetTemp = currentTemp }: ZoneState): HvacAction => {
+  if (mode === 'off') return 'off';
+  if (mode === 'heat' && currentTemp < targetTemp) return 'heating';
+  if (mode === 'cool' && currentTemp > targetTemp) return 'cooling';
+  return 'idle';
+};
+
+/** A side of `bed` as a thermostat reporting in `unit`. */
+export function toThermostat(
+  { id: bedId, name }: { id: string; name: string },
+  bed: BedState,
+  side: Side,
+  { unit, available = true }: { unit: TempUnit; available?: boolean },
+): Thermostat {
+  const zone = bed.zones[side];
+  const range = targetRange(bed.capabilities, bed.safety, unit);
+  return {
+    id: `${bedId}-${side}`,
+    name: `${name} ${bed.sideNames[side]}`,
+    bed_id: bedId,
+    side,
+    url: `/api/thermostats/${bedId}/${side}`,
+    available: available && !zone.fault,
+    hvac_mode: zone.mode,
+    hvac_modes: [...bed.capabilities.modes],
+    hvac_action: hvacAction(zone),
+    current_temperature: snap(toUnit(zone.currentTemp, unit), 0.1),
+    target_temperature: zone.targetTemp === undefined ? null : displayTemp(zone.targetTemp, unit),
+    min_temp: range.min,
+    max_temp: range.max,
+    target_temp_step: range.step,
+    temperature_unit: unit,
+  };
+}
+
+/**
+ * The zone change a thermostat command stands for. A new target is snapped to
+ * `target_temp_step` and clamped to the offered range, and a powered side
+ * switches mode to reach it, as with the demo's controls. An `hvac_mode` is
+ * applied exactly as asked, after the target; a mode the controller lacks is
+ * refused.
+ */
+export function thermostatPatch(
+  bed: BedState,
+  side: Side,
+  { hvac_mode, target_temperature }: ThermostatCommand,
+  unit: TempUnit,
+): ZonePatch {
+  const { capabilities, safety } = bed;
+  if (hvac_mode !== undefined && !capabilities.modes.includes(hvac_mode)) {
+    throw new BedApiError('invalid_field', `hvac_mode "${hvac_mode}" is not supported by this bed`, 'hvac_mode');
+  }
+  const current = bed.zones[side];
+  let zone = current;
+  if (target_temperature !== undefined) {
+    const { step } = targetRange(capabilities, safety, unit);
+    const targetTemp = clampTarget(fromUnit(snap(target_temperature, step), unit), capabilities, safety, unit);
+    zone = retargetZone(zone, targetTemp, capabilities);
+  }
+  if (hvac_mode !== undefined) {
+    zone = { ...zone, mode: hvac_mode };
+    // A side turned on without a target holds its present temperature, like the power button.
+    if (hvac_mode !== 'off' && zone.targetTemp === undefined) {
+      zone.targetTemp = clampTarget(zone.currentTemp, capabilities, safety, unit);
+    }
+  }
+  // Only what changed is sent, so a faulted side can still be turned off.
+  return {
+    ...(hvac_mode !== undefined || zone.mode !== current.mode ? { mode: zone.mode } : {}),
+    ...(zone.targetTemp !== current.targetTemp ? { targetTemp: zone.targetTemp } : {}),
+  };
+}
@@ -0,0 +1,662 @@
+import {
+  AUTOPILOT_MODES,
+  AutopilotMode,
+  MAX_SLEEP_EPOCHS,
+  RecommendationStatus,
+  SLEEP_STAGES,
+  SleepEpoch,
+  SleepStage,
+} from './autopilot';
+import { MAX_EMPTY_MINUTES, PresenceSettings } from './presence';
+import { MAX_PRESET_NAME_LENGTH, MAX_PRESETS, Preset, PresetSide } from './presets';
+import type { SafetySettings } from './safety';
+import {
+  CONFIG_FORMAT,
+  CONFIG_VERSION,
+  ConfigDocument,
+  PortableSchedule,
+} from './configDocument';
+import {
+  MAX_RAMP_MINUTES,
+  Setpoint,
+  SleepTimer,
+  WakeAlarm,
+  WeeklyProgram,
+  WEEKDAYS,
+  ZoneSchedule,
+} from './schedule';
+import { TEMP_UNITS, TempUnit } from './temperature';
+import type { ThermostatCommand } from './thermostat';
+import {
+  LinkSettings,
+  MAX_LINK_OFFSET_F,
+  MAX_SIDE_NAME_LENGTH,
+  Mode,
+  MODES,
+  Side,
+  SIDES,
+  TEMP_RANGE_F,
+  ZonePatch,
+} from './zone';
+
+export type BedErrorCode =
+  | 'unauthorized'
+  | 'unknown_bed'
+  | 'unknown_side'
+  | 'unknown_recommendation'
+  | 'not_simulated'
+  | 'out_of_range'
+  | 'invalid_field'
+  | 'invalid_json'
+  | 'conflict'
+  | 'locked'
+  | 'device_unavailable'
+  | 'device_rejected'
+  | 'internal';
+
+const STATUS: Record<BedErrorCode, number> = {
+  unauthorized: 401,
+  unknown_bed: 404,
+  unknown_side: 404,
+  unknown_recommendation: 404,
+  not_simulated: 404,
+  out_of_range: 400,
+  invalid_field: 400,
+  invalid_json: 400,
+  conflict: 409,
+  locked: 423,
+  device_unavailable: 503,
+  device_rejected: 502,
+  internal: 500,
+};
+
+/** Body returned by the bed API for rejected requests. */
+export interface BedErrorBody {
+  error: { code: BedErrorCode; message: string; field?: string };
+}
+
+/** A request the bed API refuses, carrying the HTTP status to answer with. */
+export class BedApiError extends Error {
+  constructor(
+    readonly code: BedErrorCode,
+    message: string,
+    readonly field?: string,
+    readonly status = STATUS[code],
+  ) {
+    super(message);
+    this.name = 'BedApiError';
+  }
+
+  toJSON(): BedErrorBody {
+    return { error: { code: this.code, message: this.message, field: this.field } };
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function parseSide(value: string): Side {
+  if (!SIDES.includes(value as Side)) {
+    throw new BedApiError('unknown_side', `Unknown side "${value}"`, 'side');
+  }
+  return value as Side;
+}
+
+/** Parses an `If-Match` header holding a side version, e.g. `"4"`. */
+export function parseVersion(header: string | null): number | undefined {
+  if (header === null) return undefined;
+  const version = Number(header.replace(/^W\//, '').replace(/"/g, ''));
+  if (!Number.isInteger(version) || version < 0) {
+    throw new BedApiError('invalid_field', 'If-Match must hold a side version', 'If-Match');
+  }
+  return version;
+}
+
+/** Parses an optional `unit` query parameter, defaulting to Fahrenheit. */
+export function parseUnit(value: string | null): TempUnit {
+  if (value === null) return 'F';
+  if (!TEMP_UNITS.includes(value as TempUnit)) {
+    throw new BedApiError('invalid_field', `unit must be one of ${TEMP_UNITS.join(', ')}`, 'unit');
+  }
+  return value as TempUnit;
+}
+
+/** Parses an optional query parameter holding epoch milliseconds. */
+export function parseTimestamp(value: string | null, field: string): number | undefined {
+  if (value === null) return undefined;
+  const t = Number(value);
+  if (!Number.isFinite(t)) {
+    throw new BedApiError('invalid_field', `${field} must be a timestamp in milliseconds`, field);
+  }
+  return t;
+}
+
+export function parseTemperature(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new BedApiError('invalid_field', `${field} must be a number`, field);
+  }
+  if (value < TEMP_RANGE_F.min || value > TEMP_RANGE_F.max) {
+    throw new BedApiError(
+      'out_of_range',
+      `${field} must be between ${TEMP_RANGE_F.min} and ${TEMP_RANGE_F.max} °F`,
+      field,
+    );
+  }
+  return value;
+}
+
+function parseTime(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !TIME_PATTERN.test(value)) {
+    throw new BedApiError('invalid_field', `${field} must be a time formatted as HH:MM`, field);
+  }
+  return value;
+}
+
+function parseSetpoint(value: unknown, field: string): Setpoint {
+  if (!isRecord(value)) {
+    throw new BedApiError('invalid_field', `${field} must be an object`, field);
+  }
+  if (value.label !== undefined && typeof value.label !== 'string') {
+    throw new BedApiError('invalid_field', `${field}.label must be a string`, `${field}.label`);
+  }
+  return {
+    time: parseTime(value.time, `${field}.time`),
+    temp: parseTemperature(value.temp, `${field}.temp`),
+    ...(value.label !== undefined ? { label: value.label } : {}),
+  };
+}
+
+function parseProgram(value: unknown, field: string): WeeklyProgram {
+  if (!isRecord(value)) {
+    throw new BedApiError('invalid_field', `${field} must be an object keyed by weekday`, field);
+  }
+  const program: WeeklyProgram = {};
+  for (const [key, setpoints] of Object.entries(value)) {
+    const day = WEEKDAYS.find((d) => String(d) === key);
+    if (day === undefined) {
+      throw new BedApiError('invalid_field', `${field} has unknown weekday "${key}"`, `${field}.${key}`);
+    }
+    if (!Array.isArray(setpoints)) {
+      throw new BedApiError('invalid_field', `${field}.${key} must be an array`, `${field}.${key}`);
+    }
+    program[day] = setpoints.map((sp, i) => parseSetpoint(sp, `${field}.${key}[${i}]`));
+  }
+  return program;
+}
+
+function parseWakeAlarm(value: unknown, field: string): WakeAlarm {
+  if (!isRecord(value)) {
+    throw new BedApiError('invalid_field', `${field} must be an object`, field);
+  }
+  if (typeof value.enabled !== 'boolean') {
+    throw new BedApiError('invalid_field', `${field}.enabled must be a boolean`, `${field}.enabled`);
+  }
+  const { rampMinutes } = value;
+  if (
+    typeof rampMinutes !== 'number' ||
+    !Number.isInteger(rampMinutes) ||
+    rampMinutes < 0 ||
+    rampMinutes > MAX_RAMP_MINUTES
+  ) {
+    throw new BedApiError(
+      'invalid_field',
+      `${field}.rampMinutes must be a whole number of minutes from 0 to ${MAX_RAMP_MINUTES}`,
+      `${field}.rampMinutes`,
+    );
+  }
+  return {
+    enabled: value.enabled,
+    time: parseTime(value.time, `${field}.time`),
+    temp: parseTemperature(value.temp, `${field}.temp`),
+    rampMinutes,
+  };
+}
+
+function parseSleepTimer(value: unknown, field: string): SleepTimer {
+  if (!isRecord(value) || typeof value.endsAt !== 'number' || !Number.isFinite(value.endsAt)) {
+    throw new BedApiError(
+      'invalid_field',
+      `${field}.endsAt must be a timestamp in milliseconds`,
+      `${field}.endsAt`,
+    );
+  }
+  return { endsAt: value.endsAt };
+}
+
+export function parseSchedule(value: unknown, field = 'schedule'): ZoneSchedule {
+  if (!isRecord(value)) {
+    throw new BedApiError('invalid_field', `${field} must be an object`, field);
+  }
+  if (typeof value.running !== 'boolean') {
+    throw new BedApiError('invalid_field', `${field}.running must be a boolean`, `${field}.running`);
+  }
+  return {
+    running: value.running,
+    ...(value.nextStart !== undefined
+      ? { nextStart: parseTime(value.nextStart, `${field}.nextStart`) }
+      : {}),
+    ...(value.program !== undefined
+      ? { program: parseProgram(value.program, `${field}.program`) }
+      : {}),
+    ...(value.wake !== undefined ? { wake: parseWakeAlarm(value.wake, `${field}.wake`) } : {}),
+    ...(value.sleepTimer !== undefined
+      ? { sleepTimer: parseSleepTimer(value.sleepTimer, `${field}.sleepTimer`) }
+      : {}),
+  };
+}
+
+function parseName(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.length > MAX_SIDE_NAME_LENGTH) {
+    throw new BedApiError(
+      'invalid_field',
+      `${field} must be a string of at most ${MAX_SIDE_NAME_LENGTH} characters`,
+      field,
+    );
+  }
+  return value;
+}
+
+/** Validates the body of a PATCH to one side of the bed. */
+export function parseZonePatch(body: unknown): ZonePatch {
+  if (!isRecord(body)) {
+    throw new BedApiError('invalid_json', 'Request body must be a JSON object');
+  }
+  const patch: ZonePatch = {};
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'mode':
+        if (!MODES.includes(value as Mode)) {
+          throw new BedApiError('invalid_field', `mode must be one of ${MODES.join(', ')}`, 'mode');
+        }
+        patch.mode = value as Mode;
+        break;
+      case 'targetTemp':
+        patch.targetTemp = parseTemperature(value, 'targetTemp');
+        break;
+      case 'schedule':
+        patch.schedule = parseSchedule(value);
+        break;
+      case 'autoOffAt':
+        if (value !== null && (typeof value !== 'number' || !Number.isFinite(value))) {
+          throw new BedApiError(
+            'invalid_field',
+            'autoOffAt must be a timestamp in milliseconds or null',
+            'autoOffAt',
+          );
+        }
+        patch.autoOffAt = value;
+        break;
+      case 'name':
+        patch.name = parseName(value, 'name');
+        break;
+      default:
+        throw new BedApiError('invalid_field', `Unknown field "${key}"`, key);
+    }
+  }
+  return patch;
+}
+
+/** Longest heating stretch that may be configured, in minutes. */
+const MAX_HEAT_MINUTES = 24 * 60;
+
+/** Validates the body of a PATCH to the bed's safety settings. */
+export function parseSafetyPatch(body: unknown): Partial<SafetySettings> {
+  if (!isRecord(body)) {
+    throw new BedApiError('invalid_json', 'Request body must be a JSON object');
+  }
+  const patch: Partial<SafetySettings> = {};
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'maxTemp':
+      case 'safeTemp':
+        patch[key] = parseTemperature(value, key);
+        break;
+      case 'maxHeatMinutes':
+        if (
+          value !== null &&
+          (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_HEAT_MINUTES)
+        ) {
+          throw new BedApiError(
+            'invalid_field',
+            `maxHeatMinutes must be null or a whole number of minutes from 1 to ${MAX_HEAT_MINUTES}`,
+            'maxHeatMinutes',
+          );
+        }
+        patch.maxHeatMinutes = value;
+        break;
+      case 'childLock':
+        if (typeof value !== 'boolean') {
+          throw new BedApiError('invalid_field', 'childLock must be a boolean', 'childLock');
+        }
+        patch.childLock = value;
+        break;
+      default:
+        throw new BedApiError('invalid_field', `Unknown field "${key}"`, key);
+    }
+  }
+  return patch;
+}
+
+function parsePresenceSettings(value: unknown, field: string): Partial<PresenceSettings> {
+  if (!isRecord(value)) {
+    throw new BedApiError('invalid_field', `${field} must be an object`, field);
+  }
+  const settings: Partial<PresenceSettings> = {};
+  for (const [key, setting] of Object.entries(value)) {
+    switch (key) {
+      case 'offAfterMinutes':
+        if (
+          setting !== null &&
+          (typeof setting !== 'number' ||
+            !Number.isInteger(setting) ||
+            setting < 1 ||
+            setting > MAX_EMPTY_MINUTES)
+        ) {
+          throw new BedApiError(
+            'invalid_field',
+            `${field}.offAfterMinutes must be null or a whole number of minutes from 1 to ${MAX_EMPTY_MINUTES}`,
+            `${field}.offAfterMinutes`,
+          );
+        }
+        settings.offAfterMinutes = setting;
+        break;
+      case 'resumeOnReturn':
+        if (typeof setting !== 'boolean') {
+          throw new BedApiError('invalid_field', `${field}.resumeOnReturn must be a boolean`, `${field}.resumeOnReturn`);
+        }
+        settings.resumeOnReturn = setting;
+        break;
+      default:
+        throw new BedApiError('invalid_field', `Unknown field "${key}"`, `${field}.${key}`);
+    }
+  }
+  return settings;
+}
+
+/** Validates the body of a PATCH to the presence settings, keyed by side. */
+export function parsePresencePatch(body: unknown): Partial<Record<Side, Partial<PresenceSettings>>> {
+  if (!isRecord(body)) {
+    throw new BedApiError('invalid_json', 'Request body must be a JSON object');
+  }
+  const patch: Partial<Record<Side, Partial<PresenceSettings>>> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!SIDES.includes(key as Side)) {
+      throw new BedApiError('unknown_side', `Unknown side "${key}"`, key);
+    }
+    patch[key as Side] = parsePresenceSettings(value, key);
+  }
+  return patch;
+}
+
+/** Validates the body of a PATCH to the link between the sides, e.g. `{ "enabled": true, "offset": 2 }`. */
+export function parseLinkPatch(body: unknown): Partial<LinkSettings> {
+  if (!isRecord(body)) {
+    throw new BedApiError('invalid_json', 'Request body must be a JSON object');
+  }
+  const patch: Partial<LinkSettings> = {};
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'enabled':
+        if (typeof value !== 'boolean') {
+          throw new BedApiError('invalid_field', 'enabled must be a boolean', 'enabled');
+        }
+        patch.enabled = value;
+        break;
+      case 'offset':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new BedApiError('invalid_field', 'offset must be a number', 'offset');
+        }
+        if (Math.abs(value) > MAX_LINK_OFFSET_F) {
+          throw new BedApiError(
+            'out_of_range',
+            `offset must be between -${MAX_LINK_OFFSET_F} and ${MAX_LINK_OFFSET_F} °F`,
+            'offset',
+          );
+        }
+        patch.offset = value;
+        break;
+      default:
+        throw new BedApiError('invalid_field', `Unknown field "${key}"`, key);
+    }
+  }
+  return patch;
+}
+
+/** Validates the body of a PUT to a simulated side's occupancy, e.g. `{ "occupied": true }`. */
+export function parseOccupancy(body: unknown): boolean {
+  if (!isRecord(body)) {
+    throw new BedApiError('invalid_json', 'Request body must be a JSON object');
+  }
+  if (typeof body.occupied !== 'boolean') {
+    throw new BedApiError('invalid_field', 'occupied must be a boolean', 'occupied');
+  }
+  return body.occupied;
+}
+
+/** Validates the body of a PATCH to the autopilot, e.g. `{ "left": { "mode": "suggest" } }`. */
+export function parseAutopilotPatch(body: unknown): Partial<Record<Side, { mode: AutopilotMode }>> {
+  if (!isRecord(body)) {
+    throw new BedApiError('invalid_json', 'Request body must be a JSON object');
+  }
+  const patch: Partial<Record<Side, { mode: AutopilotMode }>> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!SIDES.includes(key as Side)) {
+      throw new BedApiError('unknown_side', `Unknown side "${key}"`, key);
+    }
+    if (!isRecord(value) || !AUTOPILOT_MODES.includes(value.mode as AutopilotMode)) {
+      throw new BedApiError(
+        'invalid_field',
+        `${key}.mode must be one of ${AUTOPILOT_MODES.join(', ')}`,
+        `${key}.mode`,
+      );
+    }
+    patch[key as Side] = { mode: value.mode as AutopilotMode };
+  }
+  return patch;
+}
+
+function parseSleepEpoch(value: unknown, field: string): SleepEpoch {
+  if (!isRecord(value)) {
+    throw new BedApiError('invalid_field', `${field} must be an object`, field);
+  }
+  const { t, seconds, stage, heartRate } = value;
+  if (typeof t !== 'number' || !Number.isFinite(t)) {
+    throw new BedApiError('invalid_field', `${field}.t must be a timestamp in milliseconds`, `${field}.t`);
+  }
+  if (seconds !== undefined && (typeof seconds !== 'number' || !(seconds > 0))) {
+    throw new BedApiError('invalid_field', `${field}.seconds must be a positive number`, `${field}.seconds`);
+  }
+  if (stage !== undefined && !SLEEP_STAGES.includes(stage as SleepStage)) {
+    throw new BedApiError(
+      'invalid_field',
+      `${field}.stage must be one of ${SLEEP_STAGES.join(', ')}`,
+      `${field}.stage`,
+    );
+  }
+  if (heartRate !== undefined && (typeof heartRate !== 'number' || !(heartRate > 0))) {
+    throw new BedApiError('invalid_field', `${field}.heartRate must be a positive number`, `${field}.heartRate`);
+  }
+  if (stage === undefined && heartRate === undefined) {
+    throw new BedApiError('invalid_field', `${field} needs a stage or a heartRate`, field);
+  }
+  return {
+    t,
+    ...(seconds !== undefined ? { seconds: seconds as number } : {}),
+    ...(stage !== undefined ? { stage: stage as SleepStage } : {}),
+    ...(heartRate !== undefined ? { heartRate: heartRate as number } : {}),
+  };
+}
+
+/** Validates imported sleep data, e.g. `{ "epochs": [{ "t": 1700000000000, "stage": "deep" }] }`. */
+export function parseSleepImport(body: unknown): { epochs: SleepEpoch[] } {
+  if (!isRecord(body)) {
+    throw new BedApiError('invalid_json', 'Request body must be a JSON object');
+  }
+  const { epochs } = body;
+  if (!Array.isArray(epochs) || epochs.length === 0) {
+    throw new BedApiError('invalid_field', 'epochs must be a non-empty array', 'epochs');
+  }
+  if (epochs.length > MAX_SLEEP_EPOCHS) {
+    throw new BedApiError('out_of_range', `epochs must hold at most ${MAX_SLEEP_EPOCHS} readings`, 'epochs');
+  }
+  return { epochs: epochs.map((epoch, i) => parseSleepEpoch(epoch, `epochs[${i}]`)) };
+}
+
+/** Validates the user's verdict on a recommendation. */
+export function parseRecommendationDecision(body: unknown): Extract<RecommendationStatus, 'accepted' | 'rejected'> {
+  const status = isRecord(body) ? body.status : undefined;
+  if (status !== 'accepted' && status !== 'rejected') {
+    throw new BedApiError('invalid_field', 'status must be accepted or rejected', 'status');
+  }
+  return status;
+}
+
+/** Validates a thermostat command; `target_temperature` is in the unit the hub asked for. */
+export function parseThermostatCommand(body: unknown): ThermostatCommand {
+  if (!isRecord(body)) {
+    throw new BedApiError('invalid_json', 'Request body must be a JSON object');
+  }
+  const command: ThermostatCommand = {};
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'hvac_mode':
+        if (!MODES.includes(value as Mode)) {
+          throw new BedApiError('invalid_field', `hvac_mode must be one of ${MODES.join(', ')}`, 'hvac_mode');
+        }
+        command.hvac_mode = value as Mode;
+        break;
+      case 'target_temperature':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new BedApiError('invalid_field', 'target_temperature must be a number', 'target_temperature');
+        }
+        command.target_temperature = value;
+        break;
+      default:
+        throw new BedApiError('invalid_field', `Unknown field "${key}"`, key);
+    }
+  }
+  if (Object.keys(command).length === 0) {
+    throw new BedApiError('invalid_field', 'Send hvac_mode, target_temperature or both');
+  }
+  return command;
+}
+
+function parsePresetSide(value: unknown, field: string): PresetSide {
+  if (!isRecord(value) || !MODES.includes(value.mode as Mode)) {
+    throw new BedApiError('invalid_field', `${field}.mode must be one of ${MODES.join(', ')}`, `${field}.mode`);
+  }
+  return {
+    mode: value.mode as Mode,
+    ...(value.targetTemp !== undefined
+      ? { targetTemp: parseTemperature(value.targetTemp, `${field}.targetTemp`) }
+      : {}),
+  };
+}
+
+function parsePreset(value: unknown, field: string): Preset {
+  if (!isRecord(value)) {
+    throw new BedApiError('invalid_field', `${field} must be an object`, field);
+  }
+  if (typeof value.id !== 'string' || value.id === '') {
+    throw new BedApiError('invalid_field', `${field}.id must be a non-empty string`, `${field}.id`);
+  }
+  if (typeof value.name !== 'string' || value.name.length > MAX_PRESET_NAME_LENGTH) {
+    throw new BedApiError(
+      'invalid_field',
+      `${field}.name must be a string of at most ${MAX_PRESET_NAME_LENGTH} characters`,
+      `${field}.name`,
+    );
+  }
+  if (!isRecord(value.sides)) {
+    throw new BedApiError('invalid_field', `${field}.sides must be an object`, `${field}.sides`);
+  }
+  const sides: Preset['sides'] = {};
+  for (const [key, side] of Object.entries(value.sides)) {
+    if (!SIDES.includes(key as Side)) {
+      throw new BedApiError('invalid_field', `${field}.sides has unknown side "${key}"`, `${field}.sides.${key}`);
+    }
+    sides[key as Side] = parsePresetSide(side, `${field}.sides.${key}`);
+  }
+  if (Object.keys(sides).length === 0) {
+    throw new BedApiError('invalid_field', `${field}.sides must set at least one side`, `${field}.sides`);
+  }
+  return { id: value.id, name: value.name, sides };
+}
+
+/** Validates the body of a PUT replacing the bed's presets. */
+export function parsePresets(body: unknown): Preset[] {
+  if (!Array.isArray(body)) {
+    throw new BedApiError('invalid_json', 'Request body must be a JSON array of presets');
+  }
+  if (body.length > MAX_PRESETS) {
+    throw new BedApiError('out_of_range', `A bed keeps at most ${MAX_PRESETS} presets`);
+  }
+  const presets = body.map((preset, i) => parsePreset(preset, `[${i}]`));
+  const duplicate = presets.findIndex((p, i) => presets.findIndex((q) => q.id === p.id) !== i);
+  if (duplicate !== -1) {
+    throw new BedApiError('invalid_field', `Preset id "${presets[duplicate].id}" is used twice`, `[${duplicate}].id`);
+  }
+  return presets;
+}
+
+/** Throws for the first key of `value` that isn't in `allowed`. */
+function rejectUnknownFields(value: Record<string, unknown>, allowed: readonly string[], field?: string) {
+  const unknown = Object.keys(value).find((key) => !allowed.includes(key));
+  if (unknown !== undefined) {
+    const path = field ? `${field}.${unknown}` : unknown;
+    throw new BedApiError('invalid_field', `Unknown field "${path}"`, path);
+  }
+}
+
+/** Reads a record holding a value for each side, e.g. `sideNames`. */
+function parsePerSide<T>(value: unknown, field: string, parse: (value: unknown, field: string) => T) {
+  if (!isRecord(value)) {
+    throw new BedApiError('invalid_field', `${field} must be an object keyed by side`, field);
+  }
+  rejectUnknownFields(value, SIDES, field);
+  return Object.fromEntries(SIDES.map((side) => [side, parse(value[side], `${field}.${side}`)])) as Record<
+    Side,
+    T
+  >;
+}
+
+function parsePortableSchedule(value: unknown, field: string): PortableSchedule {
+  if (isRecord(value)) rejectUnknownFields(value, ['running', 'nextStart', 'program', 'wake'], field);
+  return parseSchedule(value, field);
+}
+
+/**
+ * Validates a configuration document being imported, following
+ * `CONFIG_SCHEMA`. Errors name the failing field by its path, e.g.
+ * `schedules.left.program.1[0].time`.
+ */
+export function parseConfigDocument(body: unknown): ConfigDocument {
+  if (!isRecord(body)) {
+    throw new BedApiError('invalid_json', 'A configuration must be a JSON object');
+  }
+  rejectUnknownFields(body, ['$schema', 'format', 'version', 'unit', 'sideNames', 'schedules']);
+  if (body.format !== CONFIG_FORMAT) {
+    throw new BedApiError('invalid_field', `format must be "${CONFIG_FORMAT}"`, 'format');
+  }
+  if (body.version !== CONFIG_VERSION) {
+    throw new BedApiError(
+      'invalid_field',
+      typeof body.version === 'number' && body.version > CONFIG_VERSION
+        ? `version ${body.version} was written by a newer release; this one reads version ${CONFIG_VERSION}`
+        : `version must be ${CONFIG_VERSION}`,
+      'version',
+    );
+  }
+  if (!TEMP_UNITS.includes(body.unit as TempUnit)) {
+    throw new BedApiError('invalid_field', `unit must be one of ${TEMP_UNITS.join(', ')}`, 'unit');
+  }
+  return {
+    format: CONFIG_FORMAT,
+    version: CONFIG_VERSION,
+    unit: body.unit as TempUnit,
+    sideNames: parsePerSide(body.sideNames, 'sideNames', parseName),
+    schedules: parsePerSide(body.schedules, 'schedules', parsePortableSchedule),
+  };
+}
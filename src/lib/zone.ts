@@ -0,0 +1,223 @@
+import { AutopilotState, DEFAULT_AUTOPILOT } from './autopilot';
+import type { DeviceCapabilities, ZoneReading } from './devices/types';
+import type { ZoneFault } from './faults';
+import { DEFAULT_PRESENCE, PresencePause, PresenceSettings } from './presence';
+import { DEFAULT_PRESETS, Preset } from './presets';
+import type { SafetyIntervention, SafetySettings } from './safety';
+import type { ZoneSchedule } from './schedule';
+import { fromUnit, snap, TempUnit, toUnit, UNIT_STEP } from './temperature';
+
+export type Side = 'left' | 'right';
+export type Mode = 'off' | 'cool' | 'heat';
+
+export const SIDES: readonly Side[] = ['left', 'right'];
+export const MODES: readonly Mode[] = ['off', 'cool', 'heat'];
+
+/** Bed that existed before the app served several; it keeps data stored for the single bed. */
+export const DEFAULT_BED_ID = 'main';
+
+/** Longest side name, in characters. */
+export const MAX_SIDE_NAME_LENGTH = 40;
+
+/** Hardware limits for target temperatures, in Fahrenheit. */
+export const TEMP_RANGE_F = { min: 55, max: 110 } as const;
+
+/** Capabilities assumed until the bed controller reports its own. */
+export const DEFAULT_CAPABILITIES: DeviceCapabilities = {
+  minTemp: TEMP_RANGE_F.min,
+  maxTemp: TEMP_RANGE_F.max,
+  modes: ['off', 'cool', 'heat'],
+};
+
+/** Safety limits in force until a client changes them. */
+export const DEFAULT_SAFETY: SafetySettings = {
+  maxTemp: TEMP_RANGE_F.max,
+  maxHeatMinutes: 8 * 60,
+  safeTemp: 80,
+  childLock: false,
+};
+
+/**
+ * Linked control of the two sides: while `enabled`, target and power changes
+ * on one side are mirrored on the other with right = left + `offset` (°F).
+ */
+export interface LinkSettings {
+  enabled: boolean;
+  offset: number;
+}
+
+/** Largest difference between linked sides, in Fahrenheit degrees. */
+export const MAX_LINK_OFFSET_F = 12;
+
+/** Clamps a Fahrenheit temperature to the controller's limits. */
+export const clampTemp = (f: number, capabilities: DeviceCapabilities = DEFAULT_CAPABILITIES) =>
+  Math.min(capabilities.maxTemp, Math.max(capabilities.minTemp, f));
+
+/**
+ * State for one half of the bed.
+ * `mode` controls the color of the zone:
+ * `cool` tints the zone blue, `heat` tints it red and `off` leaves it gray.
+ * `currentTemp` displays the present temperature and `targetTemp` shows the
+ * temperature the zone is heating or cooling toward. A `schedule` indicator can
+ * show the active program segment and the next setpoint, or when it will start
+ * next. `intervention` records the last time a safety rule took over the zone.
+ * A `fault` reported by the controller means the zone can't be used until it
+ * clears. `occupied` tells whether someone is lying on the zone, for
+ * controllers that sense it; `presencePause` is set while presence automation
+ * has turned the zone off.
+ */
+export interface ZoneState {
+  mode: Mode;
+  /** Current sensed temperature. */
+  currentTemp: number;
+  /** Desired temperature when heating or cooling. */
+  targetTemp?: number;
+  /** Optional schedule information for the zone. */
+  schedule?: ZoneSchedule;
+  /** When the zone turns itself off, in milliseconds since the epoch. */
+  autoOffAt?: number;
+  /** Set by the server when a safety rule changed the zone; cleared by the next edit. */
+  intervention?: SafetyIntervention;
+  /** Problem reported for the zone; absent while it works normally. */
+  fault?: ZoneFault;
+  /** Whether someone is on the zone; absent when the controller can't tell. */
+  occupied?: boolean;
+  /** Set by the server when it turned the empty zone off; cleared by the next edit. */
+  presencePause?: PresencePause;
+}
+
+/**
+ * Everything the server knows about a bed. `versions` counts the accepted
+ * writes per side so clients can tell which changes they have already seen;
+ * `capabilities` are reported by the connected controller and `safety` holds
+ * the limits enforced on both sides. `presets` are kept in the order users
+ * arranged them. `presence` holds each side's occupancy automation,
+ * `autopilot` the sleep-data autopilot with its recommendations and `link`
+ * whether the sides are controlled together.
+ */
+export interface BedState {
+  zones: Record<Side, ZoneState>;
+  sideNames: Record<Side, string>;
+  versions: Record<Side, number>;
+  capabilities: DeviceCapabilities;
+  safety: SafetySettings;
+  presets: Preset[];
+  presence: Record<Side, PresenceSettings>;
+  autopilot: Record<Side, AutopilotState>;
+  link: LinkSettings;
+}
+
+/** A bed as shown in the list of beds. */
+export interface BedSummary {
+  id: string;
+  name: string;
+  /** IANA time zone the bed's programs and wake alarms run in. */
+  timeZone: string;
+  zones: Record<Side, ZoneState>;
+  sideNames: Record<Side, string>;
+  /** Set when the bed's controller could not be reached. */
+  unavailable?: boolean;
+}
+
+/** Schedule features the server runs on a side's behalf. */
+export type Automation = 'program' | 'sleep_timer' | 'wake';
+
+/**
+ * Message pushed to subscribed clients. A `snapshot` carries the whole bed and
+ * is sent on connecting and after bed-wide settings change. An `update` names the client that
+ * made the change and, when the writer had not seen the previous change to
+ * that side, the client whose change was overwritten; changes made by the
+ * server's schedules name the `automation` instead. `telemetry` relays a
+ * reading from the controller.
+ */
+export type BedEvent =
+  | { type: 'snapshot'; bed: BedState }
+  | { type: 'update'; bed: BedState; side: Side; origin?: string; overwrote?: string; automation?: Automation }
+  | { type: 'telemetry'; side: Side; reading: ZoneReading };
+
+/** Fields of a side that clients may change; `autoOffAt: null` cancels the timer. */
+export interface ZonePatch {
+  mode?: Mode;
+  targetTemp?: number;
+  schedule?: ZoneSchedule;
+  autoOffAt?: number | null;
+  name?: string;
+}
+
+/** Mode a powered zone should run in to move from `current` toward `target`. */
+export const modeFor = (target: number, current: number, fallback: Mode): Mode =>
+  target > current ? 'heat' : target < current ? 'cool' : fallback;
+
+/** Falls back to another active mode when the controller lacks `mode`. */
+export const supportedMode = (mode: Mode, capabilities: DeviceCapabilities): Mode =>
+  capabilities.modes.includes(mode) ? mode : capabilities.modes.find((m) => m !== 'off') ?? 'off';
+
+/**
+ * Targets offered in `unit`: the controller's range capped at the safety
+ * maximum, snapped inward to whole steps of the unit. `ceiling` is the
+ * controller's own maximum and `mid` the middle of the range.
+ */
+export function targetRange(capabilities: DeviceCapabilities, safety: SafetySettings, unit: TempUnit) {
+  const step = UNIT_STEP[unit];
+  const maxTemp = Math.min(capabilities.maxTemp, safety.maxTemp);
+  return {
+    min: snap(toUnit(capabilities.minTemp, unit), step, Math.ceil),
+    max: snap(toUnit(maxTemp, unit), step, Math.floor),
+    ceiling: snap(toUnit(capabilities.maxTemp, unit), step, Math.floor),
+    mid: snap(toUnit((capabilities.minTemp + maxTemp) / 2, unit), step, Math.floor),
+    step,
+  };
+}
+
+/** Keeps a Fahrenheit target within the `targetRange` for `unit` and the controller's limits. */
+export function clampTarget(f: number, capabilities: DeviceCapabilities, safety: SafetySettings, unit: TempUnit) {
+  const { min, max } = targetRange(capabilities, safety, unit);
+  return clampTemp(Math.min(fromUnit(max, unit), Math.max(fromUnit(min, unit), f)), capabilities);
+}
+
+/** A zone with a new Fahrenheit target; a powered zone switches mode to reach it. */
+export const retargetZone = (z: ZoneState, targetTemp: number, capabilities: DeviceCapabilities): ZoneState => ({
+  ...z,
+  targetTemp,
+  mode: z.mode === 'off' ? z.mode : supportedMode(modeFor(targetTemp, z.currentTemp, z.mode), capabilities),
+});
+
+/**
+ * A zone turned on or off. Turning on picks the mode that reaches its target,
+ * or `fallback` when the zone is already there; a powered zone stays as it is.
+ */
+export function powerZone(
+  z: ZoneState,
+  on: boolean,
+  capabilities: DeviceCapabilities,
+  fallback: Mode = 'heat',
+): ZoneState {
+  if (!on) return { ...z, mode: 'off' };
+  if (z.mode !== 'off') return z;
+  const target = z.targetTemp ?? z.currentTemp;
+  return { ...z, mode: supportedMode(modeFor(target, z.currentTemp, fallback), capabilities), targetTemp: target };
+}
+
+export const DEFAULT_BED: BedState = {
+  zones: {
+    left: {
+      mode: 'cool',
+      currentTemp: 72,
+      targetTemp: 68,
+      schedule: { running: false },
+    },
+    right: {
+      mode: 'off',
+      currentTemp: 70,
+      schedule: { running: false },
+    },
+  },
+  sideNames: { left: 'Left', right: 'Right' },
+  versions: { left: 0, right: 0 },
+  capabilities: DEFAULT_CAPABILITIES,
+  safety: DEFAULT_SAFETY,
+  presets: DEFAULT_PRESETS,
+  presence: { left: DEFAULT_PRESENCE, right: DEFAULT_PRESENCE },
+  autopilot: { left: DEFAULT_AUTOPILOT, right: DEFAULT_AUTOPILOT },
+  link: { enabled: false, offset: 0 },
+};
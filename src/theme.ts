@@ -1,9 +1,37 @@
 'use client';
 import { createTheme } from '@mui/material/styles';
+import { grey, lightBlue, red } from '@mui/material/colors';
+import type { BedZonesPalette } from '@/components/zoneColors';
 
+const lightBed: BedZonesPalette = {
+  heat: red[700],
+  cool: lightBlue[700],
+  off: grey[500],
+  mattress: grey[100],
+  frame: grey[300],
+  pillow: '#fff',
+};
+
+const darkBed: BedZonesPalette = {
+  heat: red[500],
+  cool: lightBlue[400],
+  off: grey[400],
+  mattress: grey[800],
+  frame: grey[700],
+  pillow: grey[900],
+};
+
+/**
+ * Light and dark schemes switched with a class on `<html>`, so the stored
+ * choice can be applied before the page paints (see `InitColorSchemeScript`
+ * in the root layout).
+ */
 export const appTheme = createTheme({
-  cssVariables: true,
-  palette: { mode: 'dark' },
+  cssVariables: { colorSchemeSelector: 'class' },
+  colorSchemes: {
+    light: { palette: { bedZones: lightBed } },
+    dark: { palette: { bedZones: darkBed } },
+  },
   typography: {
     fontFamily: 'var(--font-roboto)', // wired to next/font in layout.tsx
   },